@@ -0,0 +1,361 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitService, MergedFile, ThreeWayMergeResult } from '../services/GitService';
+import { WorktreeInfo } from '../services/WorktreeManager';
+import { WindowTracker } from '../ipc/WindowTracker';
+import { DiffTreeItem } from '../providers/DiffTreeProvider';
+import { COMMIT_CONTENT_SCHEME } from '../providers/CommitContentProvider';
+import { FilePatch, PatchHunk, formatPatch, parsePatch } from '../utils/patch';
+
+export interface ApplyToOriginalServices {
+  gitService: GitService;
+  windowTracker: WindowTracker;
+}
+
+// Git's mode for symbolic links, whose blob content is the link target
+const SYMLINK_MODE = '120000';
+
+// Left side of the preview for files the original does not have yet
+const EMPTY_FILE = '.commitview-empty';
+
+/**
+ * Bring this worktree's version of a changed file over to the original working tree
+ */
+export async function applyFileToOriginalCommand(
+  services: ApplyToOriginalServices,
+  worktreeInfo: WorktreeInfo | null,
+  item: DiffTreeItem | undefined
+): Promise<void> {
+  if (!item?.diffFile) {
+    return;
+  }
+
+  const context = await getApplyContext(services, worktreeInfo);
+  if (!context) {
+    return;
+  }
+
+  const { diffFile } = item;
+  const filePaths = diffFile.oldPath && diffFile.oldPath !== diffFile.path
+    ? [diffFile.oldPath, diffFile.path]
+    : [diffFile.path];
+
+  const patch = await services.gitService.getWorkingTreePatch(context.worktreePath, context.headSha, filePaths);
+  if (!patch.trim()) {
+    vscode.window.showInformationMessage(`${diffFile.path} is the same in both windows.`);
+    return;
+  }
+
+  await previewAndApply(services.gitService, context.originalPath, patch, filePaths, diffFile.path);
+}
+
+/**
+ * Bring the hunks under the cursor or selection in a diff editor over to the original working tree
+ */
+export async function applyHunkToOriginalCommand(
+  services: ApplyToOriginalServices,
+  worktreeInfo: WorktreeInfo | null
+): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return;
+  }
+
+  const context = await getApplyContext(services, worktreeInfo);
+  if (!context) {
+    return;
+  }
+
+  const side = getEditorSide(editor.document.uri, context);
+  if (side === 'unsupported') {
+    vscode.window.showInformationMessage(
+      'Hunks can only be applied from this worktree\'s files or from the original\'s current commit.'
+    );
+    return;
+  }
+  if (!side) {
+    vscode.window.showInformationMessage('This editor does not show a file of this repository.');
+    return;
+  }
+
+  const patch = await services.gitService.getWorkingTreePatch(context.worktreePath, context.headSha, [side.filePath]);
+  const [filePatch] = parsePatch(patch);
+  if (!filePatch) {
+    vscode.window.showInformationMessage(`${side.filePath} is the same in both windows.`);
+    return;
+  }
+
+  const hunks = filePatch.hunks.filter((hunk) =>
+    editor.selections.some((selection) =>
+      overlaps(hunk, side.isOriginal, selection.start.line + 1, selection.end.line + 1)
+    )
+  );
+
+  if (hunks.length === 0) {
+    vscode.window.showInformationMessage('There is no change between the windows at the cursor.');
+    return;
+  }
+
+  const selected: FilePatch = { header: filePatch.header, hunks };
+  await previewAndApply(services.gitService, context.originalPath, formatPatch([selected]), [side.filePath], side.filePath);
+}
+
+interface ApplyContext {
+  worktreePath: string;
+  originalPath: string;  // From the window pair, i.e. the window the worktree was opened from
+  headSha: string;       // The original's HEAD, which the patch is taken against
+}
+
+async function getApplyContext(
+  services: ApplyToOriginalServices,
+  worktreeInfo: WorktreeInfo | null
+): Promise<ApplyContext | undefined> {
+  if (!worktreeInfo) {
+    vscode.window.showInformationMessage('This window is not a CommitView worktree.');
+    return undefined;
+  }
+
+  const pair = services.windowTracker.getPairByWorktreePath(worktreeInfo.path);
+  if (!pair) {
+    vscode.window.showWarningMessage('The original window of this worktree is unknown.');
+    return undefined;
+  }
+
+  const headSha = await services.gitService.getCurrentCommitSha(pair.originalPath);
+  return { worktreePath: worktreeInfo.path, originalPath: pair.originalPath, headSha };
+}
+
+/**
+ * Which file a diff editor side shows, and whether it is the original's version of it.
+ * Hunks are matched on the original's lines for the original side, on the worktree's otherwise.
+ * Other revisions, such as a commit's parent, have line numbers of their own and are unsupported.
+ */
+function getEditorSide(
+  uri: vscode.Uri,
+  context: ApplyContext
+): { filePath: string; isOriginal: boolean } | 'unsupported' | undefined {
+  if (uri.scheme === COMMIT_CONTENT_SCHEME) {
+    try {
+      const { ref } = JSON.parse(uri.query) as { ref?: string };
+      return ref === context.headSha
+        ? { filePath: uri.path.replace(/^\//, ''), isOriginal: true }
+        : 'unsupported';
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (uri.scheme === 'file') {
+    const relative = path.relative(context.worktreePath, uri.fsPath);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return { filePath: relative.split(path.sep).join('/'), isOriginal: false };
+    }
+
+    // The original's working tree may have edits that shift its lines away from HEAD
+    const originalRelative = path.relative(context.originalPath, uri.fsPath);
+    if (!originalRelative.startsWith('..') && !path.isAbsolute(originalRelative)) {
+      return 'unsupported';
+    }
+  }
+
+  return undefined;
+}
+
+function overlaps(hunk: PatchHunk, onOriginalSide: boolean, fromLine: number, toLine: number): boolean {
+  const start = onOriginalSide ? hunk.oldStart : hunk.newStart;
+  const lines = onOriginalSide ? hunk.oldLines : hunk.newLines;
+  // A side with no lines, e.g. a pure deletion seen from the worktree, sits right after its start line
+  const end = start + Math.max(lines, 1) - 1;
+  return fromLine <= end && toLine >= start;
+}
+
+/**
+ * Merge the patch without writing, show the result, and write it only once confirmed.
+ * Nothing is written if any file conflicts.
+ */
+async function previewAndApply(
+  gitService: GitService,
+  originalPath: string,
+  patch: string,
+  filePaths: string[],
+  displayPath: string
+): Promise<void> {
+  let result: ThreeWayMergeResult;
+  try {
+    result = await gitService.mergePatchThreeWay(originalPath, patch, filePaths);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to apply ${displayPath} to the original: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  if (result.conflicts.length > 0) {
+    vscode.window.showWarningMessage(
+      'The changes conflict with the original working tree, so nothing was applied.',
+      { modal: true, detail: `Conflicting files:\n${result.conflicts.join('\n')}` }
+    );
+    return;
+  }
+
+  const previewDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'commitview-preview-'));
+  try {
+    for (const file of result.files) {
+      await showPreview(originalPath, previewDir, file);
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `Apply these changes to ${displayPath} in ${path.basename(originalPath)}?`,
+      { modal: true, detail: 'The preview shows the original file on the left and the result on the right.' },
+      'Apply'
+    );
+
+    if (choice !== 'Apply') {
+      return;
+    }
+
+    await writeMergedFiles(originalPath, result.files);
+    vscode.window.showInformationMessage(`Applied ${displayPath} to ${path.basename(originalPath)}.`);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to apply ${displayPath} to the original: ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    await closePreviews(previewDir);
+    await fs.promises.rm(previewDir, { recursive: true, force: true });
+  }
+}
+
+async function showPreview(originalPath: string, previewDir: string, file: MergedFile): Promise<void> {
+  const original = path.join(originalPath, file.path);
+  const preview = path.join(previewDir, file.path);
+
+  await fs.promises.mkdir(path.dirname(preview), { recursive: true });
+  await fs.promises.writeFile(preview, file.content ?? '');
+
+  // Diff against an empty file for files the original does not have yet
+  let left = original;
+  if (!fs.existsSync(original)) {
+    left = path.join(previewDir, EMPTY_FILE);
+    await fs.promises.writeFile(left, '');
+  }
+
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    vscode.Uri.file(left),
+    vscode.Uri.file(preview),
+    `${file.path} (original ↔ after apply${file.content === null ? ', deleted' : ''})`,
+    { preview: true }
+  );
+}
+
+/**
+ * Close the preview tabs before their temporary files are deleted
+ */
+async function closePreviews(previewDir: string): Promise<void> {
+  const tabs = vscode.window.tabGroups.all
+    .flatMap((group) => group.tabs)
+    .filter((tab) => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.fsPath.startsWith(previewDir));
+
+  if (tabs.length > 0) {
+    await vscode.window.tabGroups.close(tabs);
+  }
+}
+
+interface StagedWrite {
+  target: string;
+  staged?: string;      // Written next to the target and renamed over it at the end; unset for deletions
+  backup?: string;      // The file it replaces, kept until every file is in place
+  createdDir?: string;  // Outermost directory created for it
+}
+
+/**
+ * Write every merged file or none. Each file is first written next to its target, and targets
+ * are only replaced once all of them are written. If replacing fails part way, the files
+ * replaced so far are put back.
+ */
+async function writeMergedFiles(originalPath: string, files: MergedFile[]): Promise<void> {
+  const suffix = `.commitview-${process.pid}-${Date.now()}`;
+  const writes: StagedWrite[] = [];
+
+  try {
+    for (const file of files) {
+      const write: StagedWrite = { target: path.join(originalPath, file.path) };
+      writes.push(write);
+
+      // Moving a directory aside to replace it could lose far more than this file
+      if ((await lstatOrUndefined(write.target))?.isDirectory()) {
+        throw new Error(`${file.path} is a directory`);
+      }
+      if (file.content === null) {
+        continue;
+      }
+
+      write.createdDir = await fs.promises.mkdir(path.dirname(write.target), { recursive: true });
+      write.staged = write.target + suffix;
+      if (file.mode === SYMLINK_MODE) {
+        await fs.promises.symlink(file.content.toString(), write.staged);
+      } else {
+        await fs.promises.writeFile(write.staged, file.content);
+        if (file.mode === '100755') {
+          await fs.promises.chmod(write.staged, 0o755);
+        }
+      }
+    }
+  } catch (error) {
+    await discardStagedWrites(writes);
+    throw error;
+  }
+
+  const replaced: StagedWrite[] = [];
+  try {
+    for (const write of writes) {
+      if (await lstatOrUndefined(write.target)) {
+        write.backup = `${write.target}${suffix}.orig`;
+        await fs.promises.rename(write.target, write.backup);
+      }
+      replaced.push(write);
+      if (write.staged) {
+        await fs.promises.rename(write.staged, write.target);
+      }
+    }
+  } catch (error) {
+    for (const write of replaced.reverse()) {
+      if (write.staged) {
+        await fs.promises.rm(write.target, { force: true }).catch(() => undefined);
+      }
+      if (write.backup) {
+        await fs.promises.rename(write.backup, write.target).catch(() => undefined);
+      }
+    }
+    await discardStagedWrites(writes);
+    throw error;
+  }
+
+  for (const write of writes) {
+    if (write.backup) {
+      await fs.promises.rm(write.backup, { force: true }).catch(() => undefined);
+    }
+  }
+}
+
+async function discardStagedWrites(writes: StagedWrite[]): Promise<void> {
+  for (const write of writes) {
+    if (write.staged) {
+      await fs.promises.rm(write.staged, { force: true }).catch(() => undefined);
+    }
+    if (write.createdDir) {
+      await fs.promises.rm(write.createdDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+}
+
+async function lstatOrUndefined(filePath: string): Promise<fs.Stats | undefined> {
+  try {
+    return await fs.promises.lstat(filePath);
+  } catch {
+    return undefined;
+  }
+}
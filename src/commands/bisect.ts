@@ -0,0 +1,340 @@
+import * as vscode from 'vscode';
+import { BisectStatus, BisectVerdict, GitService } from '../services/GitService';
+import { CommitService } from '../services/CommitService';
+import { WorktreeInfo, WorktreeManager } from '../services/WorktreeManager';
+import { WindowTracker } from '../ipc/WindowTracker';
+import { DiffTreeProvider, getParentRef } from '../providers/DiffTreeProvider';
+import { RefQuickPickItem, createRefItems, createSeparator, showRefPicker } from '../providers/RefQuickPick';
+import { OpenCommitServices } from './openCommit';
+import { updateDiffRange } from './stepCommit';
+import { CommitViewError, getUserFriendlyMessage } from '../utils/errors';
+import { makeRoomForWorktree } from './worktreeBudget';
+
+export interface BisectSessionServices {
+  gitService: GitService;
+  commitService: CommitService;
+  worktreeManager: WorktreeManager;
+  windowTracker: WindowTracker;
+  diffTreeProvider: DiffTreeProvider;
+}
+
+/**
+ * Pick a bad and a good commit, then bisect between them in a new dedicated worktree window
+ */
+export async function startBisectCommand(
+  gitService: GitService,
+  commitService: CommitService,
+  services: OpenCommitServices
+): Promise<void> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+  if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
+    vscode.window.showWarningMessage('No workspace folder open.');
+    return;
+  }
+
+  const repoPath = workspaceFolder.uri.fsPath;
+
+  let items: RefQuickPickItem[];
+  try {
+    items = await buildBisectItems(gitService, commitService, repoPath);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to load commits: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  const badItem = await showRefPicker(items, 'Select a bad commit, where the regression is present');
+  if (!badItem) {
+    return; // User cancelled
+  }
+
+  const goodItem = await showRefPicker(
+    items.filter((item) => item.ref === undefined || item.ref !== badItem.ref),
+    `Select a good commit, before the regression (bad: ${badItem.name})`
+  );
+  if (!goodItem) {
+    return;
+  }
+
+  let badSha: string;
+  let goodSha: string;
+  try {
+    [badSha, goodSha] = await Promise.all([
+      gitService.resolveCommit(repoPath, badItem.ref!),
+      gitService.resolveCommit(repoPath, goodItem.ref!),
+    ]);
+  } catch {
+    vscode.window.showErrorMessage('The selected refs do not resolve to commits.');
+    return;
+  }
+
+  if (!(await gitService.isAncestor(repoPath, goodSha, badSha))) {
+    vscode.window.showErrorMessage(`${goodItem.name} is not an ancestor of ${badItem.name}, so it cannot be bisected.`);
+    return;
+  }
+
+  const { worktreeManager, fileCopyService, windowTracker, worktreeListProvider } = services;
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Bisecting ${goodItem.name}..${badItem.name}...`,
+      cancellable: false,
+    },
+    async (progress) => {
+      try {
+        progress.report({ message: 'Creating worktree...' });
+        if (!(await makeRoomForWorktree(services, repoPath, badSha, { bisect: true }))) {
+          return;
+        }
+        let worktree = await worktreeManager.createWorktree(repoPath, badSha, badItem.name!, { bisect: true });
+
+        progress.report({ message: 'Linking configuration files...' });
+        await fileCopyService.linkConfigFiles(repoPath, worktree.path);
+
+        progress.report({ message: 'Starting bisect...' });
+        const status = await gitService.bisectStart(worktree.path, badSha, [goodSha]);
+        const candidate = await commitService.getCommit(repoPath, status.currentSha);
+        worktree = await worktreeManager.updateWorktree(worktree, {
+          commitSha: status.currentSha,
+          commitMessage: candidate?.subject ?? worktree.commitMessage,
+        });
+
+        windowTracker.registerWindowPair(repoPath, worktree.path, worktree.commitSha);
+        worktreeListProvider.refresh();
+
+        progress.report({ message: 'Opening new window...' });
+        await vscode.commands.executeCommand(
+          'vscode.openFolder',
+          vscode.Uri.file(worktree.path),
+          { forceNewWindow: true }
+        );
+      } catch (error) {
+        if (error instanceof CommitViewError) {
+          vscode.window.showErrorMessage(getUserFriendlyMessage(error.code));
+        } else {
+          vscode.window.showErrorMessage(
+            `Failed to start bisect: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+  );
+}
+
+/**
+ * Mark the commit under test and move the worktree to the next candidate
+ */
+export async function markBisectCommand(
+  services: BisectSessionServices,
+  worktreeInfo: WorktreeInfo | null,
+  verdict: BisectVerdict
+): Promise<WorktreeInfo | undefined> {
+  if (!worktreeInfo?.bisect) {
+    vscode.window.showInformationMessage('This window is not bisecting.');
+    return undefined;
+  }
+
+  let status: BisectStatus;
+  try {
+    status = await services.gitService.bisectMark(worktreeInfo.path, verdict);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Failed to mark ${worktreeInfo.commitSha.substring(0, 7)} as ${verdict}: ${message}`);
+    return undefined;
+  }
+
+  return finishStep(services, worktreeInfo, status);
+}
+
+/**
+ * Let `git bisect run` test every candidate with a shell command
+ */
+export async function runBisectCommand(
+  services: BisectSessionServices,
+  worktreeInfo: WorktreeInfo | null
+): Promise<WorktreeInfo | undefined> {
+  if (!worktreeInfo?.bisect) {
+    vscode.window.showInformationMessage('This window is not bisecting.');
+    return undefined;
+  }
+
+  const config = vscode.workspace.getConfiguration('commitview');
+  const command = await vscode.window.showInputBox({
+    prompt: 'Command to test each commit: exit 0 for good, 125 to skip, any other code for bad',
+    placeHolder: 'e.g. npm test',
+    value: config.get<string>('bisectTestCommand', ''),
+    ignoreFocusOut: true,
+  });
+
+  if (!command?.trim()) {
+    return undefined; // User cancelled
+  }
+
+  const worktreePath = worktreeInfo.path;
+  const status = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Running bisect with "${command}"...`,
+      cancellable: true,
+    },
+    async (_progress, token) => {
+      const abort = new AbortController();
+      token.onCancellationRequested(() => abort.abort());
+
+      try {
+        return await services.gitService.bisectRun(worktreePath, command, abort.signal);
+      } catch (error) {
+        if (!token.isCancellationRequested) {
+          vscode.window.showErrorMessage(
+            `Bisect run failed: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+        return undefined;
+      }
+    }
+  );
+
+  // Even a failed or cancelled run may have moved the worktree and recorded verdicts
+  const currentStatus: BisectStatus = status ?? {
+    currentSha: await services.gitService.getCurrentCommitSha(worktreePath),
+  };
+  return finishStep(services, worktreeInfo, currentStatus);
+}
+
+/**
+ * End the bisect, returning the worktree to the commit it was created at
+ */
+export async function resetBisectCommand(
+  services: BisectSessionServices,
+  worktreeInfo: WorktreeInfo | null
+): Promise<WorktreeInfo | undefined> {
+  if (!worktreeInfo?.bisect) {
+    vscode.window.showInformationMessage('This window is not bisecting.');
+    return undefined;
+  }
+
+  try {
+    await services.gitService.bisectReset(worktreeInfo.path);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to end bisect: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return undefined;
+  }
+
+  const sha = await services.gitService.getCurrentCommitSha(worktreeInfo.path);
+  const updated = await recordCommit(services, worktreeInfo, sha);
+  return services.worktreeManager.updateWorktree(updated, { bisect: false });
+}
+
+/**
+ * Record where bisect left the worktree and report progress or the result
+ */
+async function finishStep(
+  services: BisectSessionServices,
+  worktreeInfo: WorktreeInfo,
+  status: BisectStatus
+): Promise<WorktreeInfo> {
+  const { gitService, commitService, diffTreeProvider } = services;
+  const repoPath = worktreeInfo.originalRepoPath;
+
+  if (status.firstBadSha) {
+    // Leave the culprit checked out rather than whichever commit was tested last
+    if (status.currentSha !== status.firstBadSha) {
+      await gitService.checkoutDetached(worktreeInfo.path, status.firstBadSha);
+    }
+
+    const updated = await recordCommit(services, worktreeInfo, status.firstBadSha);
+    const culprit = await commitService.getCommit(repoPath, status.firstBadSha);
+
+    vscode.window.showInformationMessage(
+      `First bad commit: ${status.firstBadSha.substring(0, 7)} ${culprit?.subject ?? ''}`,
+      'Show Changes',
+      'End Bisect'
+    ).then(async (choice) => {
+      if (choice === 'Show Changes' && culprit) {
+        await diffTreeProvider.setRange(getParentRef(culprit), { ref: culprit.sha, label: culprit.shortSha });
+        await vscode.commands.executeCommand('commitview.diffSummary.focus');
+      } else if (choice === 'End Bisect') {
+        await vscode.commands.executeCommand('commitview.resetBisect');
+      }
+    });
+
+    return updated;
+  }
+
+  if (status.candidates) {
+    const shas = status.candidates.map((sha) => sha.substring(0, 7)).join(', ');
+    vscode.window.showWarningMessage(`Only skipped commits are left. The first bad commit is one of: ${shas}`);
+  } else if (status.remaining !== undefined) {
+    vscode.window.setStatusBarMessage(
+      `Bisect: ${status.remaining} revisions left (roughly ${status.steps} steps)`,
+      5000
+    );
+  }
+
+  return recordCommit(services, worktreeInfo, status.currentSha);
+}
+
+async function recordCommit(
+  services: BisectSessionServices,
+  worktreeInfo: WorktreeInfo,
+  sha: string
+): Promise<WorktreeInfo> {
+  const { commitService, worktreeManager, windowTracker, diffTreeProvider } = services;
+
+  const commit = await commitService.getCommit(worktreeInfo.originalRepoPath, sha);
+  const updated = await worktreeManager.updateWorktree(worktreeInfo, {
+    commitSha: sha,
+    commitMessage: commit?.subject ?? worktreeInfo.commitMessage,
+  });
+
+  windowTracker.updatePairCommit(updated.path, sha);
+  if (commit) {
+    await updateDiffRange(diffTreeProvider, worktreeInfo.commitSha, commit);
+  }
+
+  return updated;
+}
+
+async function buildBisectItems(
+  gitService: GitService,
+  commitService: CommitService,
+  repoPath: string
+): Promise<RefQuickPickItem[]> {
+  const config = vscode.workspace.getConfiguration('commitview');
+  const maxCommits = config.get<number>('maxCommitHistory', 50);
+
+  const [refs, commits] = await Promise.all([
+    gitService.listRefs(repoPath),
+    commitService.getRecentCommits(repoPath, maxCommits),
+  ]);
+
+  const items: RefQuickPickItem[] = [
+    {
+      label: '$(target) HEAD',
+      description: 'Current commit',
+      ref: 'HEAD',
+      name: 'HEAD',
+    },
+    ...createRefItems(refs),
+  ];
+
+  if (commits.length > 0) {
+    items.push(createSeparator('Recent Commits'));
+    for (const commit of commits) {
+      items.push({
+        label: `$(git-commit) ${commit.shortSha}`,
+        description: commit.subject,
+        detail: `${commit.author} • ${commit.relativeDate}`,
+        ref: commit.sha,
+        name: commit.shortSha,
+      });
+    }
+  }
+
+  return items;
+}
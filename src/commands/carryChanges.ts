@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitService, RejectedFile } from '../services/GitService';
+
+interface CarryChangesQuickPickItem extends vscode.QuickPickItem {
+  carry: boolean;
+}
+
+interface RejectedFileQuickPickItem extends vscode.QuickPickItem {
+  file: RejectedFile;
+}
+
+/**
+ * Ask whether to bring the original checkout's uncommitted changes along.
+ * Resolves to false straight away for a clean checkout, and to undefined if the user cancels.
+ */
+export async function askToCarryChanges(gitService: GitService, repoPath: string): Promise<boolean | undefined> {
+  if (!(await gitService.isDirty(repoPath))) {
+    return false;
+  }
+
+  const items: CarryChangesQuickPickItem[] = [
+    {
+      label: '$(git-commit) Commit Only',
+      description: 'A clean checkout of the commit',
+      carry: false,
+    },
+    {
+      label: '$(diff) Commit + Uncommitted Changes',
+      description: 'Apply your changes on top, leaving this checkout untouched',
+      detail: 'Hunks that do not fit the older code are reported and left in .rej files',
+      carry: true,
+    },
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'You have uncommitted changes. Open the commit with them applied?',
+  });
+
+  return selected?.carry;
+}
+
+/**
+ * Apply the uncommitted changes of the original checkout to a worktree and copy its
+ * untracked files over. The original is only read: `git stash create` leaves it as it is.
+ */
+export async function carryUncommittedChanges(
+  gitService: GitService,
+  repoPath: string,
+  worktreePath: string
+): Promise<RejectedFile[]> {
+  const stashSha = await gitService.createStashCommit(repoPath);
+  const rejected = stashSha ? await gitService.applyStashCommit(worktreePath, stashSha) : [];
+
+  for (const file of await gitService.getUntrackedFiles(repoPath)) {
+    const targetPath = path.join(worktreePath, file);
+
+    if (fs.existsSync(targetPath)) {
+      rejected.push({ path: file, hunks: [], reason: 'already exists at this commit' });
+      continue;
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+      await fs.promises.copyFile(path.join(repoPath, file), targetPath);
+    } catch (error) {
+      rejected.push({ path: file, hunks: [], reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return rejected;
+}
+
+/**
+ * Tell the user which changes did not apply and let them open the leftovers
+ */
+export async function reportRejectedChanges(
+  worktreePath: string,
+  shortSha: string,
+  rejected: RejectedFile[]
+): Promise<void> {
+  if (rejected.length === 0) {
+    return;
+  }
+
+  const hunkCount = rejected.reduce((count, file) => count + file.hunks.length, 0);
+  const parts = [
+    hunkCount > 0 ? `${hunkCount} hunk${hunkCount === 1 ? '' : 's'}` : '',
+    `${rejected.length} file${rejected.length === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+
+  const choice = await vscode.window.showWarningMessage(
+    `Some uncommitted changes did not apply to ${shortSha} (${parts.join(' in ')}).`,
+    'Show Rejected'
+  );
+
+  if (choice !== 'Show Rejected') {
+    return;
+  }
+
+  const items: RejectedFileQuickPickItem[] = rejected.map((file) => ({
+    label: `$(file) ${file.path}`,
+    description: file.hunks.length > 0
+      ? `Rejected hunk${file.hunks.length === 1 ? '' : 's'} ${file.hunks.map((n) => `#${n}`).join(', ')}`
+      : file.reason,
+    file,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Rejected changes, select one to open',
+    matchOnDescription: true,
+  });
+
+  if (!selected) {
+    return;
+  }
+
+  // A .rej file holds exactly the hunks that did not fit
+  const filePath = path.join(worktreePath, selected.file.path);
+  const rejectPath = `${filePath}.rej`;
+  const target = fs.existsSync(rejectPath) ? rejectPath : filePath;
+
+  if (fs.existsSync(target)) {
+    await vscode.window.showTextDocument(vscode.Uri.file(target), { preview: true });
+  }
+}
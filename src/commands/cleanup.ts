@@ -1,26 +1,72 @@
 import * as vscode from 'vscode';
-import { WorktreeManager } from '../services/WorktreeManager';
+import { GitService } from '../services/GitService';
+import { WorktreeInfo, WorktreeManager } from '../services/WorktreeManager';
 import { WindowTracker } from '../ipc/WindowTracker';
 
+/**
+ * Warn before removing worktrees whose branch has commits that are not pushed or merged
+ * anywhere yet. The branch itself survives cleanup, but such commits are easy to lose track of.
+ * Resolves to true if cleanup should go ahead.
+ */
+export async function confirmBranchCleanup(gitService: GitService, worktrees: WorktreeInfo[]): Promise<boolean> {
+  const warnings: string[] = [];
+
+  for (const worktree of worktrees) {
+    if (!worktree.branch) {
+      continue;
+    }
+
+    try {
+      const status = await gitService.getBranchStatus(worktree.originalRepoPath, worktree.branch);
+      const counts = [
+        status.unpushed > 0 ? `${status.unpushed} unpushed` : '',
+        status.unmerged > 0 ? `${status.unmerged} unmerged` : '',
+      ].filter(Boolean);
+      if (counts.length > 0) {
+        warnings.push(`${worktree.branch}: ${counts.join(', ')} commit(s)`);
+      }
+    } catch {
+      // The branch may have been deleted, so there is nothing to lose
+    }
+  }
+
+  if (warnings.length === 0) {
+    return true;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    'Some worktree branches have commits that are not pushed or merged yet. The branches are kept, but their worktrees will be deleted.',
+    { modal: true, detail: warnings.join('\n') },
+    'Clean Up'
+  );
+
+  return choice === 'Clean Up';
+}
+
 export async function closeWorktreeCommand(
+  gitService: GitService,
   worktreeManager: WorktreeManager,
   windowTracker: WindowTracker
 ): Promise<void> {
   const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 
-  if (!workspaceFolder) {
+  if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
     vscode.window.showWarningMessage('No workspace folder open.');
     return;
   }
 
   const currentPath = workspaceFolder.uri.fsPath;
 
-  const isWorktree = await worktreeManager.isCommitViewWorktree(currentPath);
-  if (!isWorktree) {
+  const worktree = await worktreeManager.getWorktreeInfo(currentPath);
+  if (!worktree || !(await worktreeManager.isCommitViewWorktree(currentPath))) {
     vscode.window.showInformationMessage('This window is not a CommitView worktree.');
     return;
   }
 
+  if (!(await confirmBranchCleanup(gitService, [worktree]))) {
+    return;
+  }
+
   const config = vscode.workspace.getConfiguration('commitview');
   const confirmCleanup = config.get<boolean>('confirmCleanup', false);
 
@@ -63,22 +109,26 @@ export async function closeWorktreeCommand(
   }
 }
 
-export async function cleanupAllCommand(worktreeManager: WorktreeManager): Promise<void> {
+export async function cleanupAllCommand(gitService: GitService, worktreeManager: WorktreeManager): Promise<void> {
   const trackedWorktrees = worktreeManager.getTrackedWorktrees();
+  const removable = trackedWorktrees.filter((w) => !w.pinned);
+  const pinnedNote = removable.length < trackedWorktrees.length
+    ? ` ${trackedWorktrees.length - removable.length} pinned worktree(s) are kept; unpin them to clean them up.`
+    : '';
 
-  if (trackedWorktrees.length === 0) {
-    vscode.window.showInformationMessage('No CommitView worktrees to clean up.');
+  if (removable.length === 0) {
+    vscode.window.showInformationMessage(`No CommitView worktrees to clean up.${pinnedNote}`);
     return;
   }
 
   const choice = await vscode.window.showWarningMessage(
-    `Are you sure you want to cleanup ${trackedWorktrees.length} worktree(s)?`,
+    `Are you sure you want to cleanup ${removable.length} worktree(s)?${pinnedNote}`,
     { modal: true },
     'Yes',
     'No'
   );
 
-  if (choice !== 'Yes') {
+  if (choice !== 'Yes' || !(await confirmBranchCleanup(gitService, removable))) {
     return;
   }
 
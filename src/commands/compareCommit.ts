@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { GitService } from '../services/GitService';
+import { Commit } from '../services/CommitService';
+import { WORKING_TREE_REF } from '../services/DiffService';
+import { DiffRef, DiffTreeProvider, getParentRef } from '../providers/DiffTreeProvider';
+import { createRefItems, showRefPicker } from '../providers/RefQuickPick';
+
+interface CompareQuickPickItem extends vscode.QuickPickItem {
+  range?: () => Promise<{ base: DiffRef; target: DiffRef } | undefined>;
+}
+
+/**
+ * Show a commit's changes in the CommitView Diff view without creating a worktree
+ */
+export async function compareCommitCommand(
+  gitService: GitService,
+  diffTreeProvider: DiffTreeProvider,
+  repoPath: string,
+  commit: Commit
+): Promise<void> {
+  const commitRef: DiffRef = { ref: commit.sha, label: commit.shortSha };
+
+  const items: CompareQuickPickItem[] = [
+    {
+      label: '$(git-commit) Changes in This Commit',
+      description: commit.parents.length > 1 ? 'vs. first parent' : 'vs. parent',
+      range: async () => ({ base: getParentRef(commit), target: commitRef }),
+    },
+    {
+      label: '$(target) Compare with HEAD',
+      range: async () => ({ base: commitRef, target: { ref: 'HEAD', label: 'HEAD' } }),
+    },
+    {
+      label: '$(edit) Compare with Working Tree',
+      description: 'Including uncommitted changes',
+      range: async () => ({ base: commitRef, target: { ref: WORKING_TREE_REF, label: 'Working Tree' } }),
+    },
+    {
+      label: '$(git-branch) Compare with Branch or Tag...',
+      range: async () => {
+        const refItem = await showRefPicker(
+          createRefItems(await gitService.listRefs(repoPath)),
+          `Compare ${commit.shortSha} with...`
+        );
+        return refItem ? { base: commitRef, target: { ref: refItem.ref!, label: refItem.name! } } : undefined;
+      },
+    },
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `Compare ${commit.shortSha}: ${commit.subject}`,
+  });
+
+  const range = await selected?.range?.();
+  if (!range) {
+    return; // User cancelled
+  }
+
+  await diffTreeProvider.initialize(repoPath, range.base, range.target);
+  await vscode.commands.executeCommand('setContext', 'commitview.hasDiffRange', true);
+  await vscode.commands.executeCommand('commitview.diffSummary.focus');
+}
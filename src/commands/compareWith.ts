@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { GitService } from '../services/GitService';
+import { CommitService } from '../services/CommitService';
+import { WORKING_TREE_REF } from '../services/DiffService';
+import { WorktreeInfo } from '../services/WorktreeManager';
+import { DiffRef, DiffTreeProvider } from '../providers/DiffTreeProvider';
+import { RefQuickPickItem, createRefItems, createSeparator, showRefPicker } from '../providers/RefQuickPick';
+
+export async function compareWithCommand(
+  gitService: GitService,
+  commitService: CommitService,
+  diffTreeProvider: DiffTreeProvider,
+  worktreeInfo: WorktreeInfo | null
+): Promise<void> {
+  if (!worktreeInfo) {
+    vscode.window.showInformationMessage('This window is not a CommitView worktree.');
+    return;
+  }
+
+  const repoPath = worktreeInfo.originalRepoPath;
+
+  let items: RefQuickPickItem[];
+  try {
+    items = await buildCompareItems(gitService, commitService, worktreeInfo);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to load refs: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  const baseItem = await showRefPicker(items, 'Select the base (left side) to compare from');
+  if (!baseItem) {
+    return; // User cancelled
+  }
+
+  const targetItem = await showRefPicker(
+    items.filter((item) => item.ref === undefined || item.ref !== baseItem.ref),
+    `Compare ${baseItem.name} with...`
+  );
+  if (!targetItem) {
+    return;
+  }
+
+  const base: DiffRef = { ref: baseItem.ref!, label: baseItem.name! };
+  const target: DiffRef = { ref: targetItem.ref!, label: targetItem.name! };
+
+  for (const side of [base, target]) {
+    if (side.ref !== WORKING_TREE_REF && !(await gitService.commitExists(repoPath, side.ref))) {
+      vscode.window.showErrorMessage(`${side.label} does not resolve to a commit.`);
+      return;
+    }
+  }
+
+  await diffTreeProvider.setRange(base, target);
+  await vscode.commands.executeCommand('commitview.diffSummary.focus');
+}
+
+async function buildCompareItems(
+  gitService: GitService,
+  commitService: CommitService,
+  worktreeInfo: WorktreeInfo
+): Promise<RefQuickPickItem[]> {
+  const repoPath = worktreeInfo.originalRepoPath;
+  const shortSha = worktreeInfo.commitSha.substring(0, 7);
+
+  const config = vscode.workspace.getConfiguration('commitview');
+  const maxCommits = config.get<number>('maxCommitHistory', 50);
+
+  const [refs, commits] = await Promise.all([
+    gitService.listRefs(repoPath),
+    commitService.getRecentCommits(repoPath, maxCommits),
+  ]);
+
+  const items: RefQuickPickItem[] = [
+    createSeparator('This Window'),
+    {
+      label: `$(git-commit) ${shortSha}`,
+      description: 'Commit open in this window',
+      detail: worktreeInfo.commitMessage,
+      ref: worktreeInfo.commitSha,
+      name: shortSha,
+    },
+    {
+      label: `$(git-commit) ${shortSha}^`,
+      description: 'Parent of the commit open in this window',
+      ref: `${worktreeInfo.commitSha}^`,
+      name: `${shortSha}^`,
+    },
+    createSeparator('Original Window'),
+    {
+      label: '$(edit) Working Tree',
+      description: 'Uncommitted changes in the original window',
+      ref: WORKING_TREE_REF,
+      name: 'Working Tree',
+    },
+    {
+      label: '$(git-commit) HEAD',
+      description: 'Current commit of the original window',
+      ref: 'HEAD',
+      name: 'HEAD',
+    },
+    ...createRefItems(refs),
+  ];
+
+  if (commits.length > 0) {
+    items.push(createSeparator('Recent Commits'));
+    for (const commit of commits) {
+      items.push({
+        label: `$(git-commit) ${commit.shortSha}`,
+        description: commit.subject,
+        detail: `${commit.author} • ${commit.relativeDate}`,
+        ref: commit.sha,
+        name: commit.shortSha,
+      });
+    }
+  }
+
+  return items;
+}
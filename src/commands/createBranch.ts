@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { GitService } from '../services/GitService';
+import { WorktreeInfo, WorktreeManager } from '../services/WorktreeManager';
+import { CommitViewError, getUserFriendlyMessage } from '../utils/errors';
+
+/**
+ * Start a branch at the commit this worktree window has checked out and keep the
+ * worktree around for working on it. Returns the updated worktree, or undefined if nothing changed.
+ */
+export async function createBranchCommand(
+  gitService: GitService,
+  worktreeManager: WorktreeManager,
+  worktreeInfo: WorktreeInfo | null
+): Promise<WorktreeInfo | undefined> {
+  if (!worktreeInfo) {
+    vscode.window.showInformationMessage('This window is not a CommitView worktree.');
+    return undefined;
+  }
+
+  if (worktreeInfo.branch) {
+    vscode.window.showInformationMessage(`This worktree is already on branch ${worktreeInfo.branch}.`);
+    return undefined;
+  }
+
+  if (worktreeInfo.bisect) {
+    vscode.window.showInformationMessage('End the bisect before creating a branch.');
+    return undefined;
+  }
+
+  const shortSha = worktreeInfo.commitSha.substring(0, 7);
+  const name = await vscode.window.showInputBox({
+    prompt: `New branch at ${shortSha}: ${worktreeInfo.commitMessage}`,
+    placeHolder: 'e.g. fix/login-timeout',
+    ignoreFocusOut: true,
+    validateInput: async (value) => {
+      if (!value.trim()) {
+        return 'Enter a branch name';
+      }
+      return (await gitService.isValidBranchName(worktreeInfo.path, value.trim()))
+        ? undefined
+        : `"${value.trim()}" is not a valid branch name`;
+    },
+  });
+
+  if (!name?.trim()) {
+    return undefined; // User cancelled
+  }
+
+  try {
+    const updated = await worktreeManager.attachBranch(worktreeInfo, name.trim());
+    vscode.window.showInformationMessage(
+      `Created branch ${updated.branch} at ${shortSha}. This worktree is kept until you clean it up.`
+    );
+    return updated;
+  } catch (error) {
+    if (error instanceof CommitViewError) {
+      vscode.window.showErrorMessage(getUserFriendlyMessage(error.code));
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to create branch: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { DiffFileStatus } from '../services/DiffService';
+import { DiffTreeProvider } from '../providers/DiffTreeProvider';
+
+interface StatusQuickPickItem extends vscode.QuickPickItem {
+  status?: DiffFileStatus;
+  hideGenerated?: boolean;
+}
+
+const FILTERABLE_STATUSES: { status: DiffFileStatus; label: string }[] = [
+  { status: 'added', label: 'Added' },
+  { status: 'modified', label: 'Modified' },
+  { status: 'deleted', label: 'Deleted' },
+  { status: 'renamed', label: 'Renamed' },
+  { status: 'copied', label: 'Copied' },
+  { status: 'typeChanged', label: 'Type changed' },
+];
+
+export async function filterDiffCommand(diffTreeProvider: DiffTreeProvider): Promise<void> {
+  const current = diffTreeProvider.getFilter();
+
+  const patternInput = await vscode.window.showInputBox({
+    prompt: 'Only show files matching these globs (comma-separated, leave empty for all files)',
+    placeHolder: 'e.g. src/**, *.ts',
+    value: current.pathPatterns.join(', '),
+  });
+
+  if (patternInput === undefined) {
+    return; // User cancelled
+  }
+
+  const generatedPatterns = vscode.workspace
+    .getConfiguration('commitview')
+    .get<string[]>('generatedFilePatterns', []);
+
+  const items: StatusQuickPickItem[] = [
+    ...FILTERABLE_STATUSES.map(({ status, label }) => ({
+      label,
+      status,
+      picked: current.statuses.includes(status),
+    })),
+    { label: '', kind: vscode.QuickPickItemKind.Separator },
+    {
+      label: 'Hide generated files',
+      description: generatedPatterns.join(', '),
+      hideGenerated: true,
+      picked: current.hideGenerated,
+    },
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Only show these statuses (select none for all)',
+    canPickMany: true,
+  });
+
+  if (!selected) {
+    return;
+  }
+
+  diffTreeProvider.setFilter({
+    pathPatterns: patternInput
+      .split(',')
+      .map((p) => p.trim())
+      .filter((p) => p.length > 0),
+    statuses: selected.filter((item) => item.status).map((item) => item.status!),
+    hideGenerated: selected.some((item) => item.hideGenerated),
+  });
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { GitService } from '../services/GitService';
+import { OpenCommitServices } from './openCommit';
+import { CommitViewError, getUserFriendlyMessage } from '../utils/errors';
+import { makeRoomForWorktree } from './worktreeBudget';
+
+/**
+ * Freeze the working tree as it is now, uncommitted and untracked files included,
+ * and open the snapshot in a new window next to the live one
+ */
+export async function freezeStateCommand(gitService: GitService, services: OpenCommitServices): Promise<void> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+  if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
+    vscode.window.showWarningMessage('No workspace folder open.');
+    return;
+  }
+
+  const repoPath = workspaceFolder.uri.fsPath;
+
+  if (!(await gitService.isGitRepository(repoPath))) {
+    vscode.window.showErrorMessage('This folder is not a Git repository.');
+    return;
+  }
+
+  // Git only sees what is on disk
+  const unsavedCount = vscode.workspace.textDocuments.filter((doc) => doc.isDirty && !doc.isUntitled).length;
+  if (unsavedCount > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      `${unsavedCount} file${unsavedCount === 1 ? ' has' : 's have'} unsaved changes, which are not part of the snapshot unless saved.`,
+      'Save All and Freeze',
+      'Freeze Saved Files'
+    );
+    if (!choice) {
+      return; // User cancelled
+    }
+    if (choice === 'Save All and Freeze') {
+      await vscode.workspace.saveAll(false);
+    }
+  }
+
+  const { worktreeManager, fileCopyService, windowTracker, worktreeListProvider } = services;
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Freezing current state...',
+      cancellable: false,
+    },
+    async (progress) => {
+      try {
+        progress.report({ message: 'Recording working tree...' });
+        const branch = await gitService.getCurrentBranch(repoPath);
+        const message = `Snapshot of ${branch === 'HEAD' ? 'detached HEAD' : branch} at ${new Date().toLocaleString()}`;
+        const sha = await gitService.createSnapshotCommit(repoPath, message);
+
+        progress.report({ message: 'Creating worktree...' });
+        if (!(await makeRoomForWorktree(services, repoPath, sha, { snapshot: true }))) {
+          return;
+        }
+        const worktree = await worktreeManager.createWorktree(repoPath, sha, message, { snapshot: true });
+
+        progress.report({ message: 'Linking configuration files...' });
+        await fileCopyService.linkConfigFiles(repoPath, worktree.path);
+
+        windowTracker.registerWindowPair(repoPath, worktree.path, worktree.commitSha);
+        worktreeListProvider.refresh();
+
+        progress.report({ message: 'Opening new window...' });
+        await vscode.commands.executeCommand(
+          'vscode.openFolder',
+          vscode.Uri.file(worktree.path),
+          { forceNewWindow: true }
+        );
+      } catch (error) {
+        if (error instanceof CommitViewError) {
+          vscode.window.showErrorMessage(getUserFriendlyMessage(error.code));
+        } else {
+          vscode.window.showErrorMessage(
+            `Failed to freeze the current state: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+  );
+}
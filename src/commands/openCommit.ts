@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Commit } from '../services/CommitService';
+import { WorktreeManager, WorktreeSource } from '../services/WorktreeManager';
+import { FileCopyService } from '../services/FileCopyService';
+import { WindowStateService } from '../services/WindowStateService';
+import { WindowTracker } from '../ipc/WindowTracker';
+import { WorktreeListProvider } from '../providers/WorktreeListProvider';
+import { toCommitFsUri } from '../providers/CommitFileSystemProvider';
+import { CommitViewError, getUserFriendlyMessage } from '../utils/errors';
+import { makeRoomForWorktree } from './worktreeBudget';
+
+export interface OpenCommitServices {
+  worktreeManager: WorktreeManager;
+  fileCopyService: FileCopyService;
+  windowStateService: WindowStateService;
+  windowTracker: WindowTracker;
+  worktreeListProvider: WorktreeListProvider;
+}
+
+export type OpenMode = 'worktree' | 'preview';
+
+export interface OpenCommitOptions {
+  confirm?: boolean;    // Ask before creating a new worktree
+  activeFile?: string;  // Relative path to focus in the new window instead of the current editor
+  activeLine?: number;  // 0-based line to reveal in activeFile
+  source?: WorktreeSource;  // Stash, tag or reflog entry the commit was picked from
+}
+
+export function getOpenMode(): OpenMode {
+  const config = vscode.workspace.getConfiguration('commitview');
+  return config.get<OpenMode>('openMode', 'worktree');
+}
+
+/**
+ * Open a commit in its own window, reusing an existing worktree for it if there is one.
+ * In preview mode the commit is opened read-only without creating a worktree.
+ */
+export async function openCommitInWindow(
+  services: OpenCommitServices,
+  repoPath: string,
+  commit: Commit,
+  options: OpenCommitOptions = {}
+): Promise<void> {
+  const { worktreeManager, fileCopyService, windowStateService, windowTracker, worktreeListProvider } = services;
+
+  // Check if worktree already exists for this commit
+  const existingWorktree = await worktreeManager.findWorktreeByCommit(repoPath, commit.sha);
+
+  if (existingWorktree) {
+    if (options.source && !existingWorktree.source) {
+      await worktreeManager.updateWorktree(existingWorktree, { source: options.source });
+      worktreeListProvider.refresh();
+    }
+
+    // Just open the existing one, at the requested file and line if any
+    if (options.activeFile) {
+      // Added to any state still saved for the worktree, e.g. a pinned one's open files and terminals
+      const saved = windowStateService.getStateForWorktree(existingWorktree.path) ?? { openFiles: [], terminals: [] };
+      await windowStateService.saveStateForWorktree(existingWorktree.path, {
+        ...saved,
+        openFiles: saved.openFiles.includes(options.activeFile) ? saved.openFiles : [...saved.openFiles, options.activeFile],
+        activeFile: options.activeFile,
+        activeLine: options.activeLine,
+      });
+    }
+
+    await vscode.commands.executeCommand(
+      'vscode.openFolder',
+      vscode.Uri.file(existingWorktree.path),
+      { forceNewWindow: true }
+    );
+    return;
+  }
+
+  if (options.confirm) {
+    const confirm = await vscode.window.showInformationMessage(
+      `Open commit "${commit.subject}" (${commit.shortSha}) in a new window?`,
+      { modal: false },
+      'Open',
+      'Cancel'
+    );
+
+    if (confirm !== 'Open') {
+      return;
+    }
+  }
+
+  if (getOpenMode() === 'preview') {
+    // Picked up by the preview window once it opens
+    if (options.activeFile || options.source) {
+      await windowStateService.savePreviewState(toCommitFsUri(repoPath, commit.sha), {
+        activeFile: options.activeFile,
+        activeLine: options.activeLine,
+        source: options.source,
+      });
+    }
+
+    await openCommitPreview(repoPath, commit);
+    return;
+  }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Opening commit ${commit.shortSha}...`,
+      cancellable: false,
+    },
+    async (progress) => {
+      try {
+        progress.report({ message: 'Creating worktree...' });
+
+        if (!(await makeRoomForWorktree(services, repoPath, commit.sha, { source: options.source }))) {
+          return;
+        }
+
+        const worktree = await worktreeManager.createWorktree(
+          repoPath,
+          commit.sha,
+          commit.subject,
+          { source: options.source }
+        );
+
+        // Link config files and directories
+        progress.report({ message: 'Linking configuration files...' });
+        const linkResult = await fileCopyService.linkConfigFiles(repoPath, worktree.path);
+
+        if (linkResult.linked.length > 0) {
+          const fileList = linkResult.linked.slice(0, 3).join(', ');
+          const moreCount = linkResult.linked.length > 3 ? ` +${linkResult.linked.length - 3} more` : '';
+          vscode.window.showInformationMessage(`Linked: ${fileList}${moreCount}`);
+        }
+
+        // Capture current window state (open files, terminals)
+        progress.report({ message: 'Capturing window state...' });
+        const windowState = windowStateService.captureCurrentState(repoPath);
+
+        if (options.activeFile) {
+          windowState.activeFile = options.activeFile;
+          windowState.activeLine = options.activeLine;
+          if (!windowState.openFiles.includes(options.activeFile)) {
+            windowState.openFiles.push(options.activeFile);
+          }
+        }
+
+        await windowStateService.saveStateForWorktree(worktree.path, windowState);
+
+        // Register window pair
+        windowTracker.registerWindowPair(repoPath, worktree.path, commit.sha);
+
+        // Refresh worktree list
+        worktreeListProvider.refresh();
+
+        // Open in new window
+        progress.report({ message: 'Opening new window...' });
+
+        await vscode.commands.executeCommand(
+          'vscode.openFolder',
+          vscode.Uri.file(worktree.path),
+          { forceNewWindow: true }
+        );
+      } catch (error) {
+        if (error instanceof CommitViewError) {
+          vscode.window.showErrorMessage(getUserFriendlyMessage(error.code));
+        } else {
+          vscode.window.showErrorMessage(
+            `Failed to open commit: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+  );
+}
+
+/**
+ * Open a commit read-only in a new window, straight from the object database
+ */
+export async function openCommitPreview(repoPath: string, commit: Commit): Promise<void> {
+  await vscode.commands.executeCommand('vscode.openFolder', toCommitFsUri(repoPath, commit.sha), {
+    forceNewWindow: true,
+  });
+}
+
+/**
+ * Mount a commit read-only as an extra folder of the current workspace
+ */
+export async function addCommitPreviewToWorkspace(
+  repoPath: string,
+  commit: Commit,
+  options: Pick<OpenCommitOptions, 'activeFile' | 'activeLine'> = {}
+): Promise<void> {
+  const folderUri = toCommitFsUri(repoPath, commit.sha);
+  const folders = vscode.workspace.workspaceFolders ?? [];
+
+  if (!folders.some((folder) => folder.uri.toString() === folderUri.toString())) {
+    const added = vscode.workspace.updateWorkspaceFolders(folders.length, 0, {
+      uri: folderUri,
+      name: `${commit.shortSha}: ${commit.subject} (read-only)`,
+    });
+    if (!added) {
+      vscode.window.showErrorMessage(`Failed to add commit ${commit.shortSha} to the workspace.`);
+      return;
+    }
+  }
+
+  if (options.activeFile) {
+    await showPreviewFile(folderUri, options.activeFile, options.activeLine);
+  }
+}
+
+/**
+ * Open a file of a mounted commit and reveal a line in it
+ */
+export async function showPreviewFile(folderUri: vscode.Uri, activeFile: string, activeLine?: number): Promise<void> {
+  // The folder's query tells the file system provider which commit to read
+  const fileUri = vscode.Uri.joinPath(folderUri, activeFile.split(path.sep).join('/'));
+  const editor = await vscode.window.showTextDocument(fileUri, { preview: false });
+
+  if (activeLine !== undefined) {
+    const position = new vscode.Position(activeLine, 0);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+  }
+}
@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { GitService, LineBlame } from '../services/GitService';
+import { CommitService } from '../services/CommitService';
+import { openCommitInWindow, OpenCommitServices } from './openCommit';
+import { fromGitPath, toGitPath } from '../utils/gitPath';
+
+/**
+ * Open the commit that introduced a line, landing on the same line in the new window.
+ * Called from the editor context menu (with the document URI) or from the blame hover
+ * (with a URI string and 0-based line); otherwise uses the active editor's cursor.
+ */
+export async function openLineCommitCommand(
+  gitService: GitService,
+  commitService: CommitService,
+  services: OpenCommitServices,
+  target?: vscode.Uri | string,
+  targetLine?: number
+): Promise<void> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+  if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
+    vscode.window.showErrorMessage('No workspace folder open.');
+    return;
+  }
+
+  const repoPath = workspaceFolder.uri.fsPath;
+  const editor = vscode.window.activeTextEditor;
+
+  let fileUri = typeof target === 'string' ? vscode.Uri.parse(target) : target;
+  let line = targetLine;
+
+  if (!fileUri || line === undefined) {
+    if (!editor || (fileUri && editor.document.uri.toString() !== fileUri.toString())) {
+      vscode.window.showInformationMessage('Place the cursor on a line to find the commit that introduced it.');
+      return;
+    }
+    fileUri = editor.document.uri;
+    line = editor.selection.active.line;
+  }
+
+  const gitPath = toGitPath(repoPath, fileUri);
+  if (!gitPath) {
+    vscode.window.showInformationMessage('This file is not part of the current repository.');
+    return;
+  }
+
+  let blame: LineBlame;
+  try {
+    blame = await gitService.blameLine(repoPath, gitPath, line + 1);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to blame line: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  if (blame.uncommitted) {
+    vscode.window.showInformationMessage('This line has not been committed yet.');
+    return;
+  }
+
+  const commit = await commitService.getCommit(repoPath, blame.sha);
+  if (!commit) {
+    vscode.window.showErrorMessage(`Commit ${blame.sha.substring(0, 7)} could not be found.`);
+    return;
+  }
+
+  await openCommitInWindow(services, repoPath, commit, {
+    activeFile: fromGitPath(blame.originalPath),
+    activeLine: blame.originalLine - 1,
+  });
+}
@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import { WorktreeInfo, WorktreeManager } from '../services/WorktreeManager';
+import { WorktreeTreeItem } from '../providers/WorktreeListProvider';
+
+/**
+ * Pin or unpin the worktree of a list item, or of this window when run from the command palette.
+ * Returns the updated worktree, or undefined if nothing changed.
+ */
+export async function setWorktreePinnedCommand(
+  worktreeManager: WorktreeManager,
+  item: WorktreeTreeItem | undefined,
+  pinned: boolean
+): Promise<WorktreeInfo | undefined> {
+  const worktreePath = item?.worktree.path ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const worktree = worktreePath ? await worktreeManager.getWorktreeInfo(worktreePath) : null;
+
+  if (!worktree) {
+    vscode.window.showInformationMessage('This window is not a CommitView worktree.');
+    return undefined;
+  }
+
+  if (!!worktree.pinned === pinned) {
+    return undefined;
+  }
+
+  const updated = await worktreeManager.updateWorktree(worktree, { pinned });
+  const shortSha = updated.commitSha.substring(0, 7);
+  vscode.window.showInformationMessage(
+    pinned
+      ? `Pinned ${shortSha}. It is kept, with its open files and terminals, until you unpin it.`
+      : `Unpinned ${shortSha}. It is cleaned up like other worktrees again.`
+  );
+  return updated;
+}
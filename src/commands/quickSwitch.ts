@@ -5,7 +5,7 @@ import { WindowTracker } from '../ipc/WindowTracker';
 export async function quickSwitchCommand(windowTracker: WindowTracker): Promise<void> {
   const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 
-  if (!workspaceFolder) {
+  if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
     vscode.window.showWarningMessage('No workspace folder open.');
     return;
   }
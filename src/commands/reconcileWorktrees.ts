@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { WorktreeManager } from '../services/WorktreeManager';
+
+/**
+ * Reconcile tracked worktrees with git on demand and report what changed
+ */
+export async function reconcileWorktreesCommand(
+  worktreeManager: WorktreeManager,
+  repoPath: string | undefined
+): Promise<void> {
+  try {
+    const result = await worktreeManager.reconcile(repoPath ? [repoPath] : []);
+
+    const changes = [
+      result.adopted.length > 0 ? `adopted ${result.adopted.length} untracked worktree(s)` : '',
+      result.forgotten > 0 ? `forgot ${result.forgotten} deleted worktree(s)` : '',
+      result.pruned > 0 ? `pruned ${result.pruned} stale git entr${result.pruned === 1 ? 'y' : 'ies'}` : '',
+    ].filter(Boolean);
+
+    const summary = changes.length > 0
+      ? `Worktrees reconciled: ${changes.join(', ')}.`
+      : 'Worktrees are in sync with git.';
+    const issues = result.issues > 0
+      ? ` ${result.issues} worktree(s) still disagree with git and are marked in the Active Worktrees view.`
+      : '';
+
+    vscode.window.showInformationMessage(summary + issues);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to reconcile worktrees: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -1,22 +1,21 @@
 import * as vscode from 'vscode';
-import { GitService } from '../services/GitService';
-import { CommitService } from '../services/CommitService';
-import { WorktreeManager } from '../services/WorktreeManager';
-import { FileCopyService } from '../services/FileCopyService';
-import { WindowTracker } from '../ipc/WindowTracker';
-import { showCommitPicker } from '../providers/CommitQuickPick';
+import { GitService, RejectedFile } from '../services/GitService';
+import { Commit, CommitService } from '../services/CommitService';
+import { showCommitPickerWithSearch } from '../providers/CommitQuickPick';
 import { CommitViewError, ErrorCode, getUserFriendlyMessage } from '../utils/errors';
+import { askToCarryChanges, carryUncommittedChanges, reportRejectedChanges } from './carryChanges';
+import { makeRoomForWorktree } from './worktreeBudget';
+import { getOpenMode, openCommitInWindow, OpenCommitServices } from './openCommit';
 
 export async function selectCommitCommand(
   gitService: GitService,
   commitService: CommitService,
-  worktreeManager: WorktreeManager,
-  fileCopyService: FileCopyService,
-  windowTracker: WindowTracker
+  services: OpenCommitServices
 ): Promise<void> {
+  const { worktreeManager, fileCopyService, windowTracker } = services;
   const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 
-  if (!workspaceFolder) {
+  if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
     vscode.window.showErrorMessage('No workspace folder open.');
     return;
   }
@@ -57,13 +56,29 @@ export async function selectCommitCommand(
     return;
   }
 
-  // Show commit picker
-  const selectedCommit = await showCommitPicker(commits);
+  // Show commit picker, searching git as the user types
+  const recentCommits = commits;
+  const selectedCommit = await showCommitPickerWithSearch((query) =>
+    query
+      ? findCommits(gitService, commitService, repoPath, query, maxCommits)
+      : Promise.resolve(recentCommits)
+  );
 
   if (!selectedCommit) {
     return; // User cancelled
   }
 
+  // Previews are read-only, so there is no worktree to carry uncommitted changes into
+  if (getOpenMode() === 'preview') {
+    await openCommitInWindow(services, repoPath, selectedCommit);
+    return;
+  }
+
+  const carryChanges = await askToCarryChanges(gitService, repoPath);
+  if (carryChanges === undefined) {
+    return;
+  }
+
   // Create worktree
   await vscode.window.withProgress(
     {
@@ -75,12 +90,23 @@ export async function selectCommitCommand(
       try {
         progress.report({ message: `Creating worktree at ${selectedCommit.shortSha}...` });
 
+        if (!(await makeRoomForWorktree(services, repoPath, selectedCommit.sha, { carryChanges }))) {
+          return;
+        }
+
         const worktree = await worktreeManager.createWorktree(
           repoPath,
           selectedCommit.sha,
-          selectedCommit.subject
+          selectedCommit.subject,
+          { carryChanges }
         );
 
+        let rejected: RejectedFile[] = [];
+        if (carryChanges) {
+          progress.report({ message: 'Applying uncommitted changes...' });
+          rejected = await carryUncommittedChanges(gitService, repoPath, worktree.path);
+        }
+
         // Link config files and directories
         progress.report({ message: 'Linking configuration files...' });
         const linkResult = await fileCopyService.linkConfigFiles(repoPath, worktree.path);
@@ -98,7 +124,7 @@ export async function selectCommitCommand(
         }
 
         // Register window pair
-        windowTracker.registerWindowPair(repoPath, worktree.path);
+        windowTracker.registerWindowPair(repoPath, worktree.path, worktree.commitSha);
 
         // Open in new window
         progress.report({ message: 'Opening new window...' });
@@ -112,6 +138,13 @@ export async function selectCommitCommand(
         vscode.window.showInformationMessage(
           `Opened commit ${selectedCommit.shortSha} in new window. Use Alt+Shift+S to switch back.`
         );
+
+        // Not awaited so the progress notification closes while the report waits for an answer
+        void reportRejectedChanges(worktree.path, selectedCommit.shortSha, rejected).catch((error) => {
+          vscode.window.showErrorMessage(
+            `Failed to show the rejected changes: ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
       } catch (error) {
         if (error instanceof CommitViewError) {
           const message = getUserFriendlyMessage(error.code);
@@ -149,3 +182,40 @@ export async function selectCommitCommand(
     }
   );
 }
+
+/**
+ * Search commit history, putting a commit named directly by SHA or ref first
+ */
+async function findCommits(
+  gitService: GitService,
+  commitService: CommitService,
+  repoPath: string,
+  query: string,
+  limit: number
+): Promise<Commit[]> {
+  // Search syntax (spaces, prefixes, pickaxe flags) can't be a SHA or ref name
+  const mayBeRevision = !/\s/.test(query) && !query.includes(':') && !query.startsWith('-');
+
+  const [direct, matches] = await Promise.all([
+    mayBeRevision ? resolveCommit(gitService, commitService, repoPath, query) : Promise.resolve(null),
+    commitService.searchCommits(repoPath, query, limit),
+  ]);
+
+  if (!direct) {
+    return matches;
+  }
+
+  return [direct, ...matches.filter((c) => c.sha !== direct.sha)];
+}
+
+async function resolveCommit(
+  gitService: GitService,
+  commitService: CommitService,
+  repoPath: string,
+  revision: string
+): Promise<Commit | null> {
+  if (!(await gitService.commitExists(repoPath, revision))) {
+    return null;
+  }
+  return commitService.getCommit(repoPath, revision);
+}
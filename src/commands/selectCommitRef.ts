@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { GitService } from '../services/GitService';
+import { ALL_REFS } from '../services/CommitService';
+import { CommitListProvider } from '../providers/CommitListProvider';
+import { RefQuickPickItem, createRefItems, createSeparator, showRefPicker } from '../providers/RefQuickPick';
+
+// Quick pick value for "follow HEAD"; cleared from workspace state when chosen
+const CURRENT_HEAD = '';
+
+export async function selectCommitRefCommand(
+  gitService: GitService,
+  commitListProvider: CommitListProvider
+): Promise<void> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+  if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
+    vscode.window.showWarningMessage('No workspace folder open.');
+    return;
+  }
+
+  const repoPath = workspaceFolder.uri.fsPath;
+
+  let refItems: RefQuickPickItem[];
+  try {
+    refItems = createRefItems(await gitService.listRefs(repoPath));
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to load refs: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  const selectedRef = commitListProvider.getSelectedRef();
+  const items: RefQuickPickItem[] = [
+    createSeparator('History'),
+    {
+      label: '$(target) Current HEAD',
+      description: selectedRef === undefined ? 'current' : undefined,
+      ref: CURRENT_HEAD,
+      name: 'HEAD',
+    },
+    {
+      label: '$(git-merge) All Refs',
+      description: selectedRef === ALL_REFS ? 'current' : 'Every branch, remote branch and tag',
+      ref: ALL_REFS,
+      name: 'All refs',
+    },
+    ...refItems,
+  ];
+
+  const selected = await showRefPicker(items, 'Select a branch, tag or remote ref to show commits from');
+  if (!selected) {
+    return; // User cancelled
+  }
+
+  await commitListProvider.setSelectedRef(selected.ref === CURRENT_HEAD ? undefined : selected.ref);
+}
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { Commit, CommitService } from '../services/CommitService';
+import { COMBINED_PARENTS_REF, EMPTY_TREE_SHA, WORKING_TREE_REF } from '../services/DiffService';
+import { DiffRef, DiffTreeProvider } from '../providers/DiffTreeProvider';
+
+interface MergeParentQuickPickItem extends vscode.QuickPickItem {
+  base: DiffRef;
+}
+
+/**
+ * The merge commit a Diff view range is about: the target if it is a merge
+ * (e.g. after picking a parent), otherwise the base (a worktree window's commit)
+ */
+export async function findMergeCommit(
+  commitService: CommitService,
+  repoPath: string,
+  range: { base: DiffRef; target: DiffRef }
+): Promise<Commit | undefined> {
+  const pseudoRefs = [WORKING_TREE_REF, COMBINED_PARENTS_REF, EMPTY_TREE_SHA];
+
+  for (const side of [range.target, range.base]) {
+    if (pseudoRefs.includes(side.ref)) {
+      continue;
+    }
+    const commit = await commitService.getCommit(repoPath, side.ref);
+    if (commit && commit.parents.length > 1) {
+      return commit;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Diff a merge commit against one of its parents, or show git's combined diff of all of them
+ */
+export async function selectMergeParentCommand(
+  commitService: CommitService,
+  diffTreeProvider: DiffTreeProvider
+): Promise<void> {
+  const range = diffTreeProvider.getRange();
+  const repoPath = diffTreeProvider.getRepoPath();
+  const merge = range && (await findMergeCommit(commitService, repoPath, range));
+
+  if (!merge) {
+    vscode.window.showInformationMessage('The Diff view is not showing a merge commit.');
+    return;
+  }
+
+  const parents = await Promise.all(merge.parents.map((sha) => commitService.getCommit(repoPath, sha)));
+
+  const items: MergeParentQuickPickItem[] = merge.parents.map((sha, index) => ({
+    label: `$(git-commit) Parent ${index + 1}: ${sha.substring(0, 7)}`,
+    description: parents[index]?.subject,
+    detail: index === 0 ? 'Changes the merge brought into the branch' : 'Changes the merge made on top of this parent',
+    base: { ref: sha, label: `${merge.shortSha}^${index + 1}` },
+  }));
+
+  items.push({
+    label: '$(git-merge) Combined Diff',
+    description: 'All parents at once',
+    detail: 'Only files that differ from every parent, such as conflict resolutions',
+    base: { ref: COMBINED_PARENTS_REF, label: `${merge.shortSha}^@` },
+  });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `Diff merge ${merge.shortSha}: ${merge.subject} against...`,
+    matchOnDescription: true,
+  });
+
+  if (!selected) {
+    return; // User cancelled
+  }
+
+  await diffTreeProvider.setRange(selected.base, { ref: merge.sha, label: merge.shortSha });
+}
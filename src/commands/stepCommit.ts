@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { Commit, CommitService } from '../services/CommitService';
+import { WorktreeInfo, WorktreeManager } from '../services/WorktreeManager';
+import { WindowTracker } from '../ipc/WindowTracker';
+import { DiffRef, DiffTreeProvider } from '../providers/DiffTreeProvider';
+import { CommitViewError, getUserFriendlyMessage } from '../utils/errors';
+
+export type StepDirection = 'previous' | 'next';
+
+export interface StepCommitServices {
+  commitService: CommitService;
+  worktreeManager: WorktreeManager;
+  windowTracker: WindowTracker;
+  diffTreeProvider: DiffTreeProvider;
+}
+
+/**
+ * Check out the parent or child of the current commit inside this worktree window.
+ * Returns the updated worktree, or undefined if nothing changed.
+ */
+export async function stepCommitCommand(
+  services: StepCommitServices,
+  worktreeInfo: WorktreeInfo | null,
+  direction: StepDirection
+): Promise<WorktreeInfo | undefined> {
+  const { commitService, worktreeManager, windowTracker, diffTreeProvider } = services;
+
+  if (!worktreeInfo) {
+    vscode.window.showInformationMessage('This window is not a CommitView worktree.');
+    return undefined;
+  }
+
+  // Checking out another commit would leave the branch behind
+  if (worktreeInfo.branch) {
+    vscode.window.showInformationMessage(`This worktree is on branch ${worktreeInfo.branch}. Use git to move it.`);
+    return undefined;
+  }
+
+  const repoPath = worktreeInfo.originalRepoPath;
+  const shortSha = worktreeInfo.commitSha.substring(0, 7);
+
+  let target: Commit | null;
+  try {
+    target = await findStepTarget(commitService, repoPath, worktreeInfo.commitSha, direction);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to find the ${direction} commit: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return undefined;
+  }
+
+  if (!target) {
+    vscode.window.showInformationMessage(
+      direction === 'previous' ? `${shortSha} is a root commit.` : `${shortSha} has no newer commits.`
+    );
+    return undefined;
+  }
+
+  // Unsaved edits would be silently left behind by the checkout
+  const hasUnsavedEdits = vscode.workspace.textDocuments.some(
+    (doc) => doc.isDirty && doc.uri.fsPath.startsWith(worktreeInfo.path)
+  );
+  if (hasUnsavedEdits) {
+    vscode.window.showWarningMessage('Save or revert your changes in this worktree before stepping to another commit.');
+    return undefined;
+  }
+
+  let updated: WorktreeInfo;
+  try {
+    updated = await worktreeManager.checkoutCommit(worktreeInfo.path, target.sha, target.subject);
+  } catch (error) {
+    if (error instanceof CommitViewError) {
+      vscode.window.showErrorMessage(getUserFriendlyMessage(error.code));
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to check out ${target.shortSha}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return undefined;
+  }
+
+  windowTracker.updatePairCommit(updated.path, updated.commitSha);
+  await updateDiffRange(diffTreeProvider, worktreeInfo.commitSha, target);
+
+  return updated;
+}
+
+/**
+ * The first parent when stepping back, a child on the way to HEAD when stepping forward
+ */
+async function findStepTarget(
+  commitService: CommitService,
+  repoPath: string,
+  sha: string,
+  direction: StepDirection
+): Promise<Commit | null> {
+  if (direction === 'next') {
+    return commitService.getChildCommit(repoPath, sha);
+  }
+
+  const commit = await commitService.getCommit(repoPath, sha);
+  if (!commit || commit.parents.length === 0) {
+    return null;
+  }
+  return commitService.getCommit(repoPath, commit.parents[0]);
+}
+
+/**
+ * Move whichever side of the Diff view range showed the old commit to the new one
+ */
+export async function updateDiffRange(diffTreeProvider: DiffTreeProvider, oldSha: string, commit: Commit): Promise<void> {
+  const range = diffTreeProvider.getRange();
+  if (!range) {
+    return;
+  }
+
+  const commitRef: DiffRef = { ref: commit.sha, label: commit.shortSha };
+  const replace = (side: DiffRef): DiffRef => (side.ref === oldSha ? commitRef : side);
+
+  if (range.base.ref === oldSha || range.target.ref === oldSha) {
+    await diffTreeProvider.setRange(replace(range.base), replace(range.target));
+  }
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitService } from '../services/GitService';
+import { CommitService, FileHistoryEntry } from '../services/CommitService';
+import { openCommitInWindow, OpenCommitServices } from './openCommit';
+import { fromGitPath, toGitPath } from '../utils/gitPath';
+
+interface FileHistoryQuickPickItem extends vscode.QuickPickItem {
+  entry: FileHistoryEntry;
+}
+
+export async function viewFileHistoryCommand(
+  gitService: GitService,
+  commitService: CommitService,
+  services: OpenCommitServices,
+  uri?: vscode.Uri
+): Promise<void> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+  if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
+    vscode.window.showErrorMessage('No workspace folder open.');
+    return;
+  }
+
+  const repoPath = workspaceFolder.uri.fsPath;
+  const fileUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+
+  if (!fileUri || fileUri.scheme !== 'file') {
+    vscode.window.showInformationMessage('Open a file to view its history.');
+    return;
+  }
+
+  const gitPath = toGitPath(repoPath, fileUri);
+  if (!gitPath) {
+    vscode.window.showInformationMessage('This file is not part of the current repository.');
+    return;
+  }
+
+  if (!(await gitService.isGitRepository(repoPath))) {
+    vscode.window.showErrorMessage('This folder is not a Git repository.');
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration('commitview');
+  const maxCommits = config.get<number>('maxCommitHistory', 50);
+
+  let history: FileHistoryEntry[];
+  try {
+    history = await commitService.getFileHistory(repoPath, gitPath, maxCommits);
+  } catch {
+    vscode.window.showErrorMessage('Failed to fetch file history.');
+    return;
+  }
+
+  if (history.length === 0) {
+    vscode.window.showInformationMessage(`No commits found for ${gitPath}. It may not be committed yet.`);
+    return;
+  }
+
+  const items: FileHistoryQuickPickItem[] = history.map((entry) => ({
+    label: `$(git-commit) ${entry.commit.shortSha}`,
+    description: entry.commit.subject,
+    detail: entry.path !== gitPath
+      ? `${entry.commit.author} • ${entry.commit.relativeDate} • as ${entry.path}`
+      : `${entry.commit.author} • ${entry.commit.relativeDate}`,
+    entry,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `Select a commit that changed ${path.basename(gitPath)} to view in a new window`,
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+
+  if (!selected) {
+    return; // User cancelled
+  }
+
+  await openCommitInWindow(services, repoPath, selected.entry.commit, {
+    activeFile: fromGitPath(selected.entry.path),
+  });
+}
@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { CreateWorktreeOptions } from '../services/WorktreeManager';
+import { OpenCommitServices } from './openCommit';
+import { formatBytes, formatRelativeDate } from '../utils/format';
+
+/**
+ * Before creating a worktree, make room for it when it would exceed the maxWorktrees or
+ * maxTotalWorktreeSize budget, by removing the least recently opened worktrees once confirmed.
+ * Resolves to false if the user cancelled.
+ */
+export async function makeRoomForWorktree(
+  services: Pick<OpenCommitServices, 'worktreeManager' | 'windowStateService' | 'windowTracker' | 'worktreeListProvider'>,
+  repoPath: string,
+  commitSha: string,
+  options: CreateWorktreeOptions = {}
+): Promise<boolean> {
+  const { worktreeManager, windowStateService, windowTracker, worktreeListProvider } = services;
+  const plan = await worktreeManager.planEviction(repoPath, commitSha, options);
+  if (!plan) {
+    return true;
+  }
+
+  if (plan.evict.length === 0) {
+    const choice = await vscode.window.showWarningMessage(
+      'The new worktree exceeds the worktree budget, and no worktree can be removed to make room.',
+      { modal: true, detail: 'Worktrees that are pinned, on a branch or open in a window are never removed for space.' },
+      'Open Anyway'
+    );
+    return choice === 'Open Anyway';
+  }
+
+  const lines = plan.evict.map(({ worktree, size, lastOpened }) =>
+    `${worktree.commitSha.substring(0, 7)} ${worktree.commitMessage} (${formatBytes(size)}, opened ${formatRelativeDate(new Date(lastOpened))})`
+  );
+  if (!plan.withinBudget) {
+    lines.push('', 'The budget is still exceeded afterwards.');
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `The new worktree exceeds the worktree budget. Remove ${plan.evict.length} least recently used worktree(s) to make room?`,
+    { modal: true, detail: lines.join('\n') },
+    'Remove and Open',
+    'Open Anyway'
+  );
+
+  if (choice === 'Remove and Open') {
+    for (const { worktree } of plan.evict) {
+      try {
+        await worktreeManager.removeWorktree(worktree.path);
+        windowTracker.unregisterWindowPair(worktree.path);
+        await windowStateService.clearStateForWorktree(worktree.path);
+      } catch (error) {
+        console.error(`Failed to remove worktree ${worktree.path}:`, error);
+      }
+    }
+    worktreeListProvider.refresh();
+  }
+
+  return choice !== undefined;
+}
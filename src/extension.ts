@@ -1,18 +1,50 @@
 import * as vscode from 'vscode';
 import { GitService } from './services/GitService';
 import { CommitService } from './services/CommitService';
-import { WorktreeManager } from './services/WorktreeManager';
+import { WorktreeInfo, WorktreeManager } from './services/WorktreeManager';
 import { FileCopyService } from './services/FileCopyService';
 import { DiffService } from './services/DiffService';
-import { WindowStateService } from './services/WindowStateService';
+import { PreviewState, WindowStateService } from './services/WindowStateService';
 import { WindowTracker } from './ipc/WindowTracker';
-import { DiffTreeProvider } from './providers/DiffTreeProvider';
-import { CommitListProvider, CommitTreeItem } from './providers/CommitListProvider';
-import { WorktreeListProvider } from './providers/WorktreeListProvider';
+import { DiffTreeItem, DiffTreeProvider, EMPTY_DIFF_FILTER, getParentRef } from './providers/DiffTreeProvider';
+import { CommitContentProvider, COMMIT_CONTENT_SCHEME } from './providers/CommitContentProvider';
+import { CommitFileSystemProvider, COMMIT_FS_SCHEME } from './providers/CommitFileSystemProvider';
+import { CommitFileTreeItem, CommitListProvider, CommitTreeItem } from './providers/CommitListProvider';
+import { WorktreeListProvider, WorktreeTreeItem } from './providers/WorktreeListProvider';
+import { BlameHoverProvider } from './providers/BlameHoverProvider';
+import { CommitGraphPanel } from './providers/CommitGraphPanel';
+import { BisectLogProvider } from './providers/BisectLogProvider';
+import { RefSourcesProvider, RefSourceTreeItem } from './providers/RefSourcesProvider';
 import { selectCommitCommand } from './commands/selectCommit';
 import { quickSwitchCommand } from './commands/quickSwitch';
-import { closeWorktreeCommand, cleanupAllCommand } from './commands/cleanup';
-import { CommitViewError, getUserFriendlyMessage } from './utils/errors';
+import { compareWithCommand } from './commands/compareWith';
+import { filterDiffCommand } from './commands/filterDiff';
+import { selectCommitRefCommand } from './commands/selectCommitRef';
+import {
+  addCommitPreviewToWorkspace,
+  openCommitInWindow,
+  openCommitPreview,
+  OpenCommitServices,
+  showPreviewFile,
+} from './commands/openCommit';
+import { viewFileHistoryCommand } from './commands/viewFileHistory';
+import { openLineCommitCommand } from './commands/openLineCommit';
+import { compareCommitCommand } from './commands/compareCommit';
+import { findMergeCommit, selectMergeParentCommand } from './commands/selectMergeParent';
+import { closeWorktreeCommand, cleanupAllCommand, confirmBranchCleanup } from './commands/cleanup';
+import { createBranchCommand } from './commands/createBranch';
+import { applyFileToOriginalCommand, applyHunkToOriginalCommand } from './commands/applyToOriginal';
+import { stepCommitCommand } from './commands/stepCommit';
+import {
+  markBisectCommand,
+  resetBisectCommand,
+  runBisectCommand,
+  startBisectCommand,
+} from './commands/bisect';
+import { freezeStateCommand } from './commands/freezeState';
+import { setWorktreePinnedCommand } from './commands/pinWorktree';
+import { reconcileWorktreesCommand } from './commands/reconcileWorktrees';
+import { fromGitPath } from './utils/gitPath';
 
 let worktreeManager: WorktreeManager;
 let windowTracker: WindowTracker;
@@ -30,12 +62,14 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   windowTracker = new WindowTracker(context.globalState);
   windowStateService = new WindowStateService(context.globalState);
 
-  // Get current workspace path
-  const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  // Get current workspace path. A commit preview's folder is not on disk, so it has none
+  // and the repository-bound views and commands stay idle in its window.
+  const workspaceUri = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const workspacePath = workspaceUri?.scheme === 'file' ? workspaceUri.fsPath : undefined;
 
   // Check if current workspace is a CommitView worktree
   let isWorktreeWindow = false;
-  let worktreeInfo = null;
+  let worktreeInfo: WorktreeInfo | null = null;
 
   if (workspacePath) {
     isWorktreeWindow = await worktreeManager.isCommitViewWorktree(workspacePath);
@@ -46,6 +80,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
   // Set context for when clauses
   await vscode.commands.executeCommand('setContext', 'commitview.isWorktreeWindow', isWorktreeWindow);
+  await vscode.commands.executeCommand('setContext', 'commitview.worktreePinned', !!worktreeInfo?.pinned);
   await vscode.commands.executeCommand(
     'setContext',
     'commitview.hasActiveWorktree',
@@ -53,9 +88,25 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   );
 
   // Register Commit List View (sidebar)
-  const commitListProvider = new CommitListProvider(commitService, gitService);
+  const commitListProvider = new CommitListProvider(commitService, gitService, diffService, context.workspaceState);
+  const commitListView = vscode.window.createTreeView('commitview.commits', {
+    treeDataProvider: commitListProvider,
+  });
+  context.subscriptions.push(commitListView);
+
+  // Show which ref the commit list follows in the view title
+  context.subscriptions.push(
+    commitListProvider.onDidChangeTreeData(() => {
+      commitListView.description = commitListProvider.getSelectedRefLabel();
+    })
+  );
+
+  await vscode.commands.executeCommand('setContext', 'commitview.firstParentOnly', commitListProvider.isFirstParentOnly());
+
+  // Register Stashes, Tags & Reflog View (sidebar)
+  const refSourcesProvider = new RefSourcesProvider(gitService);
   context.subscriptions.push(
-    vscode.window.registerTreeDataProvider('commitview.commits', commitListProvider)
+    vscode.window.registerTreeDataProvider('commitview.refSources', refSourcesProvider)
   );
 
   // Register Worktree List View (sidebar)
@@ -66,12 +117,69 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
   // Register Diff Tree View (only for worktree windows)
   const diffTreeProvider = new DiffTreeProvider(diffService);
+  const diffTreeView = vscode.window.createTreeView('commitview.diffSummary', {
+    treeDataProvider: diffTreeProvider,
+  });
+  context.subscriptions.push(diffTreeView);
+
+  // Register Bisect Log View (only while a worktree window is bisecting)
+  const bisectLogProvider = new BisectLogProvider(gitService);
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider('commitview.bisectLog', bisectLogProvider)
+  );
+
+  // Show the active comparison range in the view title and filter state in the view body
+  let mergeCheckedRange: string | undefined;
+  context.subscriptions.push(
+    diffTreeProvider.onDidChangeTreeData(async () => {
+      diffTreeView.description = diffTreeProvider.getRangeLabel();
+      diffTreeView.message = diffTreeProvider.getFilterMessage();
+      vscode.commands.executeCommand('setContext', 'commitview.diffFiltered', diffTreeProvider.isFiltered());
+
+      // Offer parent selection only while a merge commit is involved, checking each range once
+      const range = diffTreeProvider.getRange();
+      const rangeLabel = diffTreeProvider.getRangeLabel();
+      if (range && rangeLabel !== mergeCheckedRange) {
+        mergeCheckedRange = rangeLabel;
+        const merge = await findMergeCommit(commitService, diffTreeProvider.getRepoPath(), range);
+        vscode.commands.executeCommand('setContext', 'commitview.diffHasMerge', !!merge);
+      }
+    })
+  );
+
+  await vscode.commands.executeCommand('setContext', 'commitview.diffViewMode', diffTreeProvider.getViewMode());
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('commitview.diffViewMode')) {
+        vscode.commands.executeCommand('setContext', 'commitview.diffViewMode', diffTreeProvider.getViewMode());
+        diffTreeProvider.rerender();
+      } else if (event.affectsConfiguration('commitview.generatedFilePatterns')) {
+        diffTreeProvider.rerender();
+      }
+    })
+  );
+
+  // Register read-only file content at any revision (used for diffs)
   context.subscriptions.push(
-    vscode.window.registerTreeDataProvider('commitview.diffSummary', diffTreeProvider)
+    vscode.workspace.registerTextDocumentContentProvider(
+      COMMIT_CONTENT_SCHEME,
+      new CommitContentProvider(diffService)
+    )
+  );
+
+  // Register read-only commit previews mounted straight from the object database
+  context.subscriptions.push(
+    vscode.workspace.registerFileSystemProvider(
+      COMMIT_FS_SCHEME,
+      new CommitFileSystemProvider(gitService),
+      { isCaseSensitive: true, isReadonly: true }
+    )
   );
 
   // Initialize providers
-  await commitListProvider.initialize();
+  if (workspacePath) {
+    await commitListProvider.initialize();
+  }
 
   // Initialize diff view and restore window state if this is a worktree window
   if (isWorktreeWindow && worktreeInfo) {
@@ -79,25 +187,78 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       const currentSha = await gitService.getCurrentCommitSha(worktreeInfo.originalRepoPath);
       await diffTreeProvider.initialize(
         worktreeInfo.originalRepoPath,
-        worktreeInfo.commitSha,
-        currentSha
+        { ref: worktreeInfo.commitSha, label: worktreeInfo.commitSha.substring(0, 7) },
+        { ref: currentSha, label: currentSha.substring(0, 7) }
       );
     } catch (error) {
       console.error('Failed to initialize diff view:', error);
     }
 
-    // Restore window state (open files, terminals) from original window
+    // Restore window state (open files, terminals) from original window. On a reload VS Code
+    // revives a pinned worktree's own editors and terminals, and restoring on top would double them.
+    const revived = worktreeInfo.pinned && (
+      vscode.window.terminals.length > 0 ||
+      vscode.window.tabGroups.all.some((group) => group.tabs.length > 0)
+    );
+    if (!revived) {
+      try {
+        await windowStateService.restoreState(workspacePath!);
+      } catch (error) {
+        console.error('Failed to restore window state:', error);
+      }
+    }
+
+    // Keep other windows' stale cleanup away from this worktree while it is open
     try {
-      await windowStateService.restoreState(workspacePath!);
+      context.subscriptions.push(await worktreeManager.acquireWindowLock(worktreeInfo));
     } catch (error) {
-      console.error('Failed to restore window state:', error);
+      console.error('Failed to lock worktree:', error);
+    }
+
+    // Remember what a pinned worktree's window has open, so it reopens the same way. Registered
+    // only now that the restore above has finished, so its own terminals are not recorded twice.
+    // Looked up each time because the worktree may be pinned from another window.
+    const pinnedPath = worktreeInfo.path;
+    const savePinnedState = async (): Promise<void> => {
+      const current = await worktreeManager.getWorktreeInfo(pinnedPath);
+      if (current?.pinned) {
+        await windowStateService.saveStateForWorktree(pinnedPath, windowStateService.captureCurrentState(pinnedPath));
+      }
+    };
+    context.subscriptions.push(
+      vscode.window.tabGroups.onDidChangeTabs(() => savePinnedState()),
+      vscode.window.onDidChangeActiveTextEditor(() => savePinnedState()),
+      vscode.window.onDidOpenTerminal(() => savePinnedState()),
+      vscode.window.onDidCloseTerminal(() => savePinnedState())
+    );
+    await savePinnedState();
+  }
+
+  // Open the file a commit preview window was asked to show
+  let previewState: PreviewState | undefined;
+  if (workspaceUri?.scheme === COMMIT_FS_SCHEME) {
+    previewState = await windowStateService.takePreviewState(workspaceUri);
+    if (previewState?.activeFile) {
+      try {
+        await showPreviewFile(workspaceUri, previewState.activeFile, previewState.activeLine);
+      } catch (error) {
+        console.error('Failed to open preview file:', error);
+      }
     }
   }
 
+  const openCommitServices: OpenCommitServices = {
+    worktreeManager,
+    fileCopyService,
+    windowStateService,
+    windowTracker,
+    worktreeListProvider,
+  };
+
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand('commitview.selectCommit', () =>
-      selectCommitCommand(gitService, commitService, worktreeManager, fileCopyService, windowTracker)
+      selectCommitCommand(gitService, commitService, openCommitServices)
     )
   );
 
@@ -108,105 +269,167 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         return;
       }
 
-      const commit = item.commit;
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-
-      if (!workspaceFolder) {
+      if (!workspacePath) {
         return;
       }
 
-      const repoPath = workspaceFolder.uri.fsPath;
+      await openCommitInWindow(openCommitServices, workspacePath, item.commit, { confirm: true });
+    })
+  );
 
-      // Check if worktree already exists for this commit
-      const existingWorktree = await worktreeManager.findWorktreeByCommit(repoPath, commit.sha);
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.openRefSource', async (item: RefSourceTreeItem) => {
+      if (!item?.source || !workspacePath) {
+        return;
+      }
 
-      if (existingWorktree) {
-        // Just open the existing one
-        await vscode.commands.executeCommand(
-          'vscode.openFolder',
-          vscode.Uri.file(existingWorktree.path),
-          { forceNewWindow: true }
-        );
+      const repoPath = workspacePath;
+      const commit = await commitService.getCommit(repoPath, item.sha);
+      if (!commit) {
+        vscode.window.showErrorMessage(`Commit ${item.sha.substring(0, 7)} no longer exists.`);
         return;
       }
 
-      // Show confirmation popup
-      const confirm = await vscode.window.showInformationMessage(
-        `Open commit "${commit.subject}" (${commit.shortSha}) in a new window?`,
-        { modal: false },
-        'Open',
-        'Cancel'
-      );
+      await openCommitInWindow(openCommitServices, repoPath, commit, { confirm: true, source: item.source });
+    })
+  );
 
-      if (confirm !== 'Open') {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.previewCommit', async (item: CommitTreeItem) => {
+      if (!item?.commit || !workspacePath) {
         return;
       }
 
-      vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: `Opening commit ${commit.shortSha}...`,
-          cancellable: false,
-        },
-        async (progress) => {
-          try {
-            progress.report({ message: 'Creating worktree...' });
-
-            const worktree = await worktreeManager.createWorktree(
-              repoPath,
-              commit.sha,
-              commit.subject
-            );
-
-            // Link config files and directories
-            progress.report({ message: 'Linking configuration files...' });
-            const linkResult = await fileCopyService.linkConfigFiles(repoPath, worktree.path);
-
-            if (linkResult.linked.length > 0) {
-              const fileList = linkResult.linked.slice(0, 3).join(', ');
-              const moreCount = linkResult.linked.length > 3 ? ` +${linkResult.linked.length - 3} more` : '';
-              vscode.window.showInformationMessage(`Linked: ${fileList}${moreCount}`);
-            }
-
-            // Capture current window state (open files, terminals)
-            progress.report({ message: 'Capturing window state...' });
-            const windowState = windowStateService.captureCurrentState(repoPath);
-            await windowStateService.saveStateForWorktree(worktree.path, windowState);
-
-            // Register window pair
-            windowTracker.registerWindowPair(repoPath, worktree.path);
-
-            // Refresh worktree list
-            worktreeListProvider.refresh();
-
-            // Open in new window
-            progress.report({ message: 'Opening new window...' });
-
-            await vscode.commands.executeCommand(
-              'vscode.openFolder',
-              vscode.Uri.file(worktree.path),
-              { forceNewWindow: true }
-            );
-          } catch (error) {
-            if (error instanceof CommitViewError) {
-              vscode.window.showErrorMessage(getUserFriendlyMessage(error.code));
-            } else {
-              vscode.window.showErrorMessage(
-                `Failed to open commit: ${error instanceof Error ? error.message : String(error)}`
-              );
-            }
-          }
+      await openCommitPreview(workspacePath, item.commit);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'commitview.addCommitToWorkspace',
+      async (item: CommitTreeItem | CommitFileTreeItem) => {
+        if (!item?.commit || !workspacePath) {
+          return;
         }
-      );
+
+        await addCommitPreviewToWorkspace(workspacePath, item.commit, {
+          activeFile: item instanceof CommitFileTreeItem ? fromGitPath(item.diffFile.path) : undefined,
+        });
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.openCommitAtFile', async (item: CommitFileTreeItem) => {
+      if (!item?.commit) {
+        return;
+      }
+
+      await openCommitInWindow(openCommitServices, item.repoPath, item.commit, {
+        activeFile: fromGitPath(item.diffFile.path),
+      });
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.openLineCommit', (target?: vscode.Uri | string, line?: number) =>
+      openLineCommitCommand(gitService, commitService, openCommitServices, target, line)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.compareCommit', async (item: CommitTreeItem) => {
+      if (!item?.commit || !workspacePath) {
+        return;
+      }
+
+      await compareCommitCommand(gitService, diffTreeProvider, workspacePath, item.commit);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.showGraph', () => {
+      if (!workspacePath) {
+        vscode.window.showWarningMessage('No workspace folder open.');
+        return;
+      }
+
+      const repoPath = workspacePath;
+      CommitGraphPanel.show(commitService, repoPath, commitListProvider.getSelectedRef(), {
+        open: (commit) => openCommitInWindow(openCommitServices, repoPath, commit, { confirm: true }),
+        compare: (commit) => compareCommitCommand(gitService, diffTreeProvider, repoPath, commit),
+      });
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.startBisect', () =>
+      startBisectCommand(gitService, commitService, openCommitServices)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.freezeState', () =>
+      freezeStateCommand(gitService, openCommitServices)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.showBisectCommit', async (sha: string) => {
+      const commit = worktreeInfo && (await commitService.getCommit(worktreeInfo.originalRepoPath, sha));
+      if (!commit) {
+        return;
+      }
+
+      await diffTreeProvider.setRange(getParentRef(commit), { ref: commit.sha, label: commit.shortSha });
+      await vscode.commands.executeCommand('commitview.diffSummary.focus');
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.viewFileHistory', (uri?: vscode.Uri) =>
+      viewFileHistoryCommand(gitService, commitService, openCommitServices, uri)
+    )
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('commitview.refreshCommits', () => {
       commitListProvider.refresh();
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.refreshRefSources', () => {
+      refSourcesProvider.refresh();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.selectCommitRef', () =>
+      selectCommitRefCommand(gitService, commitListProvider)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.showFirstParentOnly', async () => {
+      await vscode.commands.executeCommand('setContext', 'commitview.firstParentOnly', true);
+      await commitListProvider.setFirstParentOnly(true);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.showAllParents', async () => {
+      await vscode.commands.executeCommand('setContext', 'commitview.firstParentOnly', false);
+      await commitListProvider.setFirstParentOnly(false);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.loadMoreCommits', () =>
+      commitListProvider.loadMore()
+    )
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('commitview.quickSwitch', () =>
       quickSwitchCommand(windowTracker)
@@ -219,35 +442,118 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.compareWith', () =>
+      compareWithCommand(gitService, commitService, diffTreeProvider, worktreeInfo)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.swapDiffSides', () =>
+      diffTreeProvider.swapSides()
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.selectMergeParent', () =>
+      selectMergeParentCommand(commitService, diffTreeProvider)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.diffViewAsTree', () =>
+      vscode.workspace
+        .getConfiguration('commitview')
+        .update('diffViewMode', 'tree', vscode.ConfigurationTarget.Global)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.diffViewAsList', () =>
+      vscode.workspace
+        .getConfiguration('commitview')
+        .update('diffViewMode', 'list', vscode.ConfigurationTarget.Global)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.filterDiff', () =>
+      filterDiffCommand(diffTreeProvider)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.clearDiffFilter', () =>
+      diffTreeProvider.setFilter(EMPTY_DIFF_FILTER)
+    )
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('commitview.closeWorktree', async (item?: { worktree?: { path: string } }) => {
       if (item?.worktree) {
         // Called from worktree list view
+        const worktree = await worktreeManager.getWorktreeInfo(item.worktree.path);
+        if (worktree && !(await confirmBranchCleanup(gitService, [worktree]))) {
+          return;
+        }
         await worktreeManager.removeWorktree(item.worktree.path);
         windowTracker.unregisterWindowPair(item.worktree.path);
         worktreeListProvider.refresh();
         vscode.window.showInformationMessage('Worktree cleaned up.');
       } else {
         // Called from command palette or current worktree window
-        await closeWorktreeCommand(worktreeManager, windowTracker);
+        await closeWorktreeCommand(gitService, worktreeManager, windowTracker);
       }
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.reconcileWorktrees', async () => {
+      await reconcileWorktreesCommand(worktreeManager, isWorktreeWindow ? undefined : workspacePath);
+      worktreeListProvider.refresh();
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('commitview.cleanupAll', async () => {
-      await cleanupAllCommand(worktreeManager);
+      await cleanupAllCommand(gitService, worktreeManager);
       worktreeListProvider.refresh();
     })
   );
 
   // Create status bar button
   const statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+  const showWorktreeCommit = (info: WorktreeInfo): void => {
+    if (info.branch) {
+      statusBar.text = `$(git-branch) ${info.branch}`;
+    } else if (info.snapshot) {
+      statusBar.text = `$(device-camera) Snapshot ${info.commitSha.substring(0, 7)}`;
+    } else {
+      statusBar.text = `$(git-compare) ${info.commitSha.substring(0, 7)}`;
+    }
+    statusBar.tooltip = `CommitView: ${info.commitMessage}\nClick to switch to original window`;
+    vscode.commands.executeCommand('setContext', 'commitview.worktreeOnBranch', !!info.branch);
+  };
 
   if (isWorktreeWindow && worktreeInfo) {
-    // Worktree window: show commit info and switch button
-    statusBar.text = `$(git-compare) ${worktreeInfo.commitSha.substring(0, 7)}`;
-    statusBar.tooltip = `CommitView: ${worktreeInfo.commitMessage}\nClick to switch to original window`;
+    // Worktree window: show commit info and switch button, flanked by arrows to step through history
+    const previousItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 101);
+    previousItem.text = '$(arrow-left)';
+    previousItem.tooltip = 'Check out the previous (parent) commit in this window';
+    previousItem.command = 'commitview.previousCommit';
+
+    const nextItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    nextItem.text = '$(arrow-right)';
+    nextItem.tooltip = 'Check out the next (child) commit in this window';
+    nextItem.command = 'commitview.nextCommit';
+
+    for (const item of [previousItem, nextItem]) {
+      item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+      item.show();
+      context.subscriptions.push(item);
+    }
+
+    showWorktreeCommit(worktreeInfo);
     statusBar.command = 'commitview.quickSwitch';
     statusBar.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
 
@@ -268,11 +574,129 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     statusBar.text = `$(git-commit) CommitView`;
     statusBar.tooltip = 'Click to view a previous commit in a new window';
     statusBar.command = 'commitview.selectCommit';
+  } else if (workspaceUri?.scheme === COMMIT_FS_SCHEME) {
+    // Commit preview window: show which commit it is and where it was picked from
+    const source = previewState?.source;
+    statusBar.text = `$(eye) ${workspaceUri.authority}`;
+    statusBar.tooltip = source
+      ? `CommitView: Read-only preview, opened from ${source.kind} ${source.message ? `"${source.message}"` : source.ref}`
+      : 'CommitView: Read-only preview';
   }
 
   statusBar.show();
   context.subscriptions.push(statusBar);
 
+  // Bisect verdicts, shown only while this worktree window is bisecting
+  const bisectItems = (
+    [
+      ['$(pass) Good', 'Mark this commit as good', 'commitview.bisectGood'],
+      ['$(error) Bad', 'Mark this commit as bad', 'commitview.bisectBad'],
+      ['$(debug-step-over) Skip', 'Skip this commit, e.g. if it cannot be tested', 'commitview.bisectSkip'],
+    ] as const
+  ).map(([text, tooltip, command], index) => {
+    const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98 - index);
+    item.text = text;
+    item.tooltip = tooltip;
+    item.command = command;
+    context.subscriptions.push(item);
+    return item;
+  });
+
+  const showBisectState = (info: WorktreeInfo | null): void => {
+    const bisecting = !!info?.bisect;
+    vscode.commands.executeCommand('setContext', 'commitview.isBisecting', bisecting);
+    bisectLogProvider.setWorktree(bisecting ? info!.path : undefined);
+    for (const item of bisectItems) {
+      if (bisecting) {
+        item.show();
+      } else {
+        item.hide();
+      }
+    }
+  };
+  showBisectState(worktreeInfo);
+
+  // Commands below move the worktree in place; reflect the new commit without reopening the window
+  const onWorktreeMoved = (updated: WorktreeInfo | undefined): void => {
+    if (!updated) {
+      return;
+    }
+    worktreeInfo = updated;
+    showWorktreeCommit(updated);
+    showBisectState(updated);
+    worktreeListProvider.refresh();
+  };
+
+  const stepServices = { commitService, worktreeManager, windowTracker, diffTreeProvider };
+  const bisectServices = { gitService, ...stepServices };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.previousCommit', async () =>
+      onWorktreeMoved(await stepCommitCommand(stepServices, worktreeInfo, 'previous'))
+    ),
+    vscode.commands.registerCommand('commitview.nextCommit', async () =>
+      onWorktreeMoved(await stepCommitCommand(stepServices, worktreeInfo, 'next'))
+    ),
+    vscode.commands.registerCommand('commitview.bisectGood', async () =>
+      onWorktreeMoved(await markBisectCommand(bisectServices, worktreeInfo, 'good'))
+    ),
+    vscode.commands.registerCommand('commitview.bisectBad', async () =>
+      onWorktreeMoved(await markBisectCommand(bisectServices, worktreeInfo, 'bad'))
+    ),
+    vscode.commands.registerCommand('commitview.bisectSkip', async () =>
+      onWorktreeMoved(await markBisectCommand(bisectServices, worktreeInfo, 'skip'))
+    ),
+    vscode.commands.registerCommand('commitview.bisectRun', async () =>
+      onWorktreeMoved(await runBisectCommand(bisectServices, worktreeInfo))
+    ),
+    vscode.commands.registerCommand('commitview.resetBisect', async () =>
+      onWorktreeMoved(await resetBisectCommand(bisectServices, worktreeInfo))
+    ),
+    vscode.commands.registerCommand('commitview.createBranch', async () =>
+      onWorktreeMoved(await createBranchCommand(gitService, worktreeManager, worktreeInfo))
+    )
+  );
+
+  const onWorktreePinned = (updated: WorktreeInfo | undefined): void => {
+    if (!updated) {
+      return;
+    }
+    if (updated.path === worktreeInfo?.path) {
+      worktreeInfo = updated;
+      vscode.commands.executeCommand('setContext', 'commitview.worktreePinned', !!updated.pinned);
+    }
+    worktreeListProvider.refresh();
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.pinWorktree', async (item?: WorktreeTreeItem) =>
+      onWorktreePinned(await setWorktreePinnedCommand(worktreeManager, item, true))
+    ),
+    vscode.commands.registerCommand('commitview.unpinWorktree', async (item?: WorktreeTreeItem) =>
+      onWorktreePinned(await setWorktreePinnedCommand(worktreeManager, item, false))
+    )
+  );
+
+  const applyServices = { gitService, windowTracker };
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commitview.applyFileToOriginal', (item?: DiffTreeItem) =>
+      applyFileToOriginalCommand(applyServices, worktreeInfo, item)
+    ),
+    vscode.commands.registerCommand('commitview.applyHunkToOriginal', () =>
+      applyHunkToOriginalCommand(applyServices, worktreeInfo)
+    )
+  );
+
+  // Blame hover for lines in the original window (worktree windows already show old code)
+  if (!isWorktreeWindow && workspacePath && await gitService.isGitRepository(workspacePath)) {
+    context.subscriptions.push(
+      vscode.languages.registerHoverProvider(
+        { scheme: 'file' },
+        new BlameHoverProvider(gitService, workspacePath)
+      )
+    );
+  }
+
   // Cleanup stale worktrees on activation
   try {
     const cleanedCount = await worktreeManager.cleanupStaleWorktrees();
@@ -284,13 +708,28 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     console.error('Failed to cleanup stale worktrees:', error);
   }
 
+  // Pick up worktrees other windows, profiles or the CLI left behind, and prune dangling git entries
+  try {
+    const result = await worktreeManager.reconcile(!isWorktreeWindow && workspacePath ? [workspacePath] : []);
+    if (result.adopted.length > 0 || result.forgotten > 0 || result.pruned > 0 || result.issues > 0) {
+      console.log(
+        `CommitView: Reconciled worktrees (${result.adopted.length} adopted, ${result.forgotten} forgotten, ` +
+        `${result.pruned} pruned, ${result.issues} disagreeing)`
+      );
+      worktreeListProvider.refresh();
+    }
+  } catch (error) {
+    console.error('Failed to reconcile worktrees:', error);
+  }
+
   console.log('CommitView extension activated');
 }
 
 export async function deactivate(): Promise<void> {
   console.log('CommitView extension deactivating...');
 
-  const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const workspaceUri = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const workspacePath = workspaceUri?.scheme === 'file' ? workspaceUri.fsPath : undefined;
 
   if (workspacePath && worktreeManager) {
     const isWorktree = await worktreeManager.isCommitViewWorktree(workspacePath);
@@ -298,8 +737,9 @@ export async function deactivate(): Promise<void> {
     if (isWorktree) {
       const config = vscode.workspace.getConfiguration('commitview');
       const autoCleanup = config.get<boolean>('autoCleanupOnClose', true);
+      const worktree = await worktreeManager.getWorktreeInfo(workspacePath);
 
-      if (autoCleanup) {
+      if (autoCleanup && !worktree?.persistent && !worktree?.pinned) {
         try {
           await worktreeManager.removeWorktree(workspacePath);
           windowTracker?.unregisterWindowPair(workspacePath);
@@ -307,6 +747,8 @@ export async function deactivate(): Promise<void> {
         } catch (error) {
           console.error('CommitView: Failed to auto-cleanup worktree:', error);
         }
+      } else if (worktree) {
+        await worktreeManager.releaseWindowLock(worktree);
       }
     }
   }
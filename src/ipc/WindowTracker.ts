@@ -4,6 +4,7 @@ export interface WindowPair {
   id: string;
   originalPath: string;
   worktreePath: string;
+  commitSha?: string;  // Commit currently checked out in the worktree
   createdAt: number;
 }
 
@@ -12,7 +13,7 @@ const PAIRS_KEY = 'commitview.windowPairs';
 export class WindowTracker {
   constructor(private globalState: vscode.Memento) {}
 
-  registerWindowPair(originalPath: string, worktreePath: string): void {
+  registerWindowPair(originalPath: string, worktreePath: string, commitSha?: string): void {
     const pairs = this.getActivePairs();
 
     // Remove any existing pair for the same paths
@@ -24,12 +25,23 @@ export class WindowTracker {
       id: `${Date.now()}-${Math.random().toString(36).substring(7)}`,
       originalPath,
       worktreePath,
+      commitSha,
       createdAt: Date.now(),
     });
 
     this.globalState.update(PAIRS_KEY, filtered);
   }
 
+  /**
+   * Record that a worktree window moved to another commit without reopening
+   */
+  updatePairCommit(worktreePath: string, commitSha: string): void {
+    const pairs = this.getActivePairs().map((p) =>
+      p.worktreePath === worktreePath ? { ...p, commitSha } : p
+    );
+    this.globalState.update(PAIRS_KEY, pairs);
+  }
+
   getPartnerWindow(currentPath: string): string | undefined {
     const pairs = this.getActivePairs();
 
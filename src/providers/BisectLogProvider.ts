@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { BisectLogEntry, GitService } from '../services/GitService';
+
+const ENTRY_LABELS: Record<BisectLogEntry['kind'], string> = {
+  good: 'good',
+  bad: 'bad',
+  skip: 'skipped',
+  firstBad: 'first bad commit',
+  possibleFirstBad: 'possibly first bad',
+};
+
+/**
+ * Verdicts of the bisect running in this worktree window, in the order they were given
+ */
+export class BisectLogProvider implements vscode.TreeDataProvider<BisectLogTreeItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<BisectLogTreeItem | undefined | null | void> =
+    new vscode.EventEmitter<BisectLogTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<BisectLogTreeItem | undefined | null | void> =
+    this._onDidChangeTreeData.event;
+
+  private worktreePath: string | undefined;
+
+  constructor(private gitService: GitService) {}
+
+  setWorktree(worktreePath: string | undefined): void {
+    this.worktreePath = worktreePath;
+    this.refresh();
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: BisectLogTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: BisectLogTreeItem): Promise<BisectLogTreeItem[]> {
+    if (element || !this.worktreePath) {
+      return [];
+    }
+
+    const entries = await this.gitService.bisectLog(this.worktreePath);
+    return entries.map((entry, index) => new BisectLogTreeItem(entry, index));
+  }
+}
+
+export class BisectLogTreeItem extends vscode.TreeItem {
+  constructor(public readonly entry: BisectLogEntry, index: number) {
+    super(entry.subject || entry.sha.substring(0, 7), vscode.TreeItemCollapsibleState.None);
+
+    this.id = `bisect:${index}`;
+    this.description = `${entry.sha.substring(0, 7)} • ${ENTRY_LABELS[entry.kind]}`;
+    this.tooltip = `${entry.sha}\n${entry.subject}\nVerdict: ${ENTRY_LABELS[entry.kind]}`;
+    this.iconPath = this.getIcon();
+    this.contextValue = 'bisectEntry';
+
+    this.command = {
+      command: 'commitview.showBisectCommit',
+      title: 'Show Changes',
+      arguments: [entry.sha],
+    };
+  }
+
+  private getIcon(): vscode.ThemeIcon {
+    switch (this.entry.kind) {
+      case 'good':
+        return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+      case 'bad':
+        return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+      case 'skip':
+        return new vscode.ThemeIcon('debug-step-over', new vscode.ThemeColor('testing.iconSkipped'));
+      case 'firstBad':
+        return new vscode.ThemeIcon('bug', new vscode.ThemeColor('errorForeground'));
+      case 'possibleFirstBad':
+      default:
+        return new vscode.ThemeIcon('question', new vscode.ThemeColor('testing.iconQueued'));
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { GitService } from '../services/GitService';
+import { toGitPath } from '../utils/gitPath';
+
+/**
+ * Shows the commit that introduced the hovered line, with a link to open it in a new window
+ */
+export class BlameHoverProvider implements vscode.HoverProvider {
+  constructor(
+    private gitService: GitService,
+    private repoPath: string
+  ) {}
+
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Hover | undefined> {
+    const config = vscode.workspace.getConfiguration('commitview');
+    if (!config.get<boolean>('blameHover', true)) {
+      return undefined;
+    }
+
+    // Line numbers of unsaved edits don't match the file git blames
+    if (document.isDirty) {
+      return undefined;
+    }
+
+    const gitPath = toGitPath(this.repoPath, document.uri);
+    if (!gitPath) {
+      return undefined;
+    }
+
+    let blame;
+    try {
+      blame = await this.gitService.blameLine(this.repoPath, gitPath, position.line + 1);
+    } catch {
+      return undefined;
+    }
+
+    if (token.isCancellationRequested || blame.uncommitted) {
+      return undefined;
+    }
+
+    const args = encodeURIComponent(JSON.stringify([document.uri.toString(), position.line]));
+    const md = new vscode.MarkdownString();
+    md.isTrusted = true;
+    md.appendMarkdown(`$(git-commit) \`${blame.sha.substring(0, 7)}\` ${blame.summary} — ${blame.author}\n\n`);
+    md.appendMarkdown(`[Open this commit in a new window](command:commitview.openLineCommit?${args})`);
+
+    return new vscode.Hover(md);
+  }
+}
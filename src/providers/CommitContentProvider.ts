@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { COMBINED_PARENTS_REF, DiffService, WORKING_TREE_REF } from '../services/DiffService';
+
+export const COMMIT_CONTENT_SCHEME = 'commitview';
+
+interface CommitContentQuery {
+  repoPath: string;
+  ref: string;
+  combined?: boolean;  // Serve the combined diff of a merge instead of file content
+}
+
+// Suffix that gives combined diff documents diff syntax highlighting
+const COMBINED_DIFF_SUFFIX = '.diff';
+
+/**
+ * Build a read-only URI for a file as it exists at a given revision
+ */
+export function toCommitContentUri(repoPath: string, ref: string, filePath: string): vscode.Uri {
+  const query: CommitContentQuery = { repoPath, ref };
+  return vscode.Uri.from({
+    scheme: COMMIT_CONTENT_SCHEME,
+    path: `/${filePath}`,
+    query: JSON.stringify(query),
+  });
+}
+
+/**
+ * Build a read-only URI for a file's combined diff in a merge commit
+ */
+export function toCombinedDiffUri(repoPath: string, mergeSha: string, filePath: string): vscode.Uri {
+  const query: CommitContentQuery = { repoPath, ref: mergeSha, combined: true };
+  return vscode.Uri.from({
+    scheme: COMMIT_CONTENT_SCHEME,
+    path: `/${filePath}${COMBINED_DIFF_SUFFIX}`,
+    query: JSON.stringify(query),
+  });
+}
+
+/**
+ * URI for one side of a diff: the live file for the working tree, otherwise the revision content
+ */
+export function toRevisionUri(repoPath: string, ref: string, filePath: string): vscode.Uri {
+  if (ref === WORKING_TREE_REF) {
+    return vscode.Uri.file(path.join(repoPath, filePath));
+  }
+  return toCommitContentUri(repoPath, ref, filePath);
+}
+
+export class CommitContentProvider implements vscode.TextDocumentContentProvider {
+  constructor(private diffService: DiffService) {}
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    let query: CommitContentQuery;
+    try {
+      query = JSON.parse(uri.query) as CommitContentQuery;
+    } catch {
+      return '';
+    }
+
+    if (!query.repoPath || !query.ref) {
+      return '';
+    }
+
+    const filePath = uri.path.replace(/^\//, '');
+    if (query.combined) {
+      const sourcePath = filePath.slice(0, -COMBINED_DIFF_SUFFIX.length);
+      try {
+        return await this.diffService.getFileDiff(query.repoPath, sourcePath, COMBINED_PARENTS_REF, query.ref);
+      } catch {
+        return '';
+      }
+    }
+    return this.diffService.getFileContent(query.repoPath, query.ref, filePath);
+  }
+}
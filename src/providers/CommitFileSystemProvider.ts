@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import { GitService, GitTreeEntry } from '../services/GitService';
+
+export const COMMIT_FS_SCHEME = 'commitview-fs';
+
+interface CommitFsQuery {
+  repoPath: string;
+  sha: string;
+}
+
+interface CommitTree {
+  entries: Map<string, GitTreeEntry>;
+  children: Map<string, [string, vscode.FileType][]>;  // Keyed by directory path, '' for the root
+}
+
+// Git's mode for symbolic links, whose blob content is the link target
+const SYMLINK_MODE = '120000';
+
+/**
+ * Build a URI for a path inside a commit mounted as a read-only folder. The short SHA is
+ * the authority so the folder is named after the commit; the query carries what git needs.
+ */
+export function toCommitFsUri(repoPath: string, sha: string, filePath: string = ''): vscode.Uri {
+  const query: CommitFsQuery = { repoPath, sha };
+  return vscode.Uri.from({
+    scheme: COMMIT_FS_SCHEME,
+    authority: sha.substring(0, 7),
+    path: `/${filePath}`,
+    query: JSON.stringify(query),
+  });
+}
+
+/**
+ * Read-only file system over a commit's tree, read straight from the object database
+ * with `git ls-tree` and `git cat-file`. Nothing is checked out, so opening is instant.
+ */
+export class CommitFileSystemProvider implements vscode.FileSystemProvider {
+  // A commit never changes, so there is nothing to report
+  readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> =
+    new vscode.EventEmitter<vscode.FileChangeEvent[]>().event;
+
+  private trees: Map<string, Promise<CommitTree>> = new Map();
+
+  constructor(private gitService: GitService) {}
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => {});
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const tree = await this.getTree(uri);
+    const filePath = getPath(uri);
+
+    // Objects are immutable, so a fixed timestamp is accurate enough
+    const stat = { ctime: 0, mtime: 0, permissions: vscode.FilePermission.Readonly };
+
+    if (!filePath) {
+      return { ...stat, type: vscode.FileType.Directory, size: 0 };
+    }
+
+    const entry = tree.entries.get(filePath);
+    if (!entry) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+
+    return { ...stat, type: getFileType(entry), size: entry.size };
+  }
+
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const tree = await this.getTree(uri);
+    const filePath = getPath(uri);
+
+    const children = tree.children.get(filePath);
+    if (children) {
+      return children;
+    }
+
+    const entry = tree.entries.get(filePath);
+    if (!entry) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    if (entry.type === 'blob') {
+      throw vscode.FileSystemError.FileNotADirectory(uri);
+    }
+    return []; // Empty directory, e.g. an uninitialized submodule
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const tree = await this.getTree(uri);
+    const filePath = getPath(uri);
+
+    const entry = tree.entries.get(filePath);
+    if (!entry) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    if (entry.type !== 'blob') {
+      throw vscode.FileSystemError.FileIsADirectory(uri);
+    }
+
+    const { repoPath, sha } = parseQuery(uri);
+    return this.gitService.readBlob(repoPath, sha, filePath);
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  writeFile(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  /**
+   * List the whole tree once per commit and answer every stat and readDirectory from memory
+   */
+  private getTree(uri: vscode.Uri): Promise<CommitTree> {
+    const { repoPath, sha } = parseQuery(uri);
+    const key = `${repoPath}\0${sha}`;
+
+    let tree = this.trees.get(key);
+    if (!tree) {
+      tree = this.loadTree(repoPath, sha);
+      this.trees.set(key, tree);
+      // Let a failed load be retried
+      tree.catch(() => this.trees.delete(key));
+    }
+
+    return tree.catch(() => {
+      throw vscode.FileSystemError.Unavailable(uri);
+    });
+  }
+
+  private async loadTree(repoPath: string, sha: string): Promise<CommitTree> {
+    const tree: CommitTree = { entries: new Map(), children: new Map([['', []]]) };
+
+    for (const entry of await this.gitService.listTree(repoPath, sha)) {
+      tree.entries.set(entry.path, entry);
+
+      const slash = entry.path.lastIndexOf('/');
+      const parent = slash === -1 ? '' : entry.path.substring(0, slash);
+      const name = entry.path.substring(slash + 1);
+
+      // ls-tree lists a directory before its contents, so the parent already exists
+      tree.children.get(parent)?.push([name, getFileType(entry)]);
+      if (entry.type === 'tree') {
+        tree.children.set(entry.path, []);
+      }
+    }
+
+    return tree;
+  }
+}
+
+function parseQuery(uri: vscode.Uri): CommitFsQuery {
+  try {
+    const query = JSON.parse(uri.query) as CommitFsQuery;
+    if (query.repoPath && query.sha) {
+      return query;
+    }
+  } catch {
+    // Fall through
+  }
+  throw vscode.FileSystemError.FileNotFound(uri);
+}
+
+function getPath(uri: vscode.Uri): string {
+  return uri.path.replace(/^\/+|\/+$/g, '');
+}
+
+function getFileType(entry: GitTreeEntry): vscode.FileType {
+  if (entry.type !== 'blob') {
+    return vscode.FileType.Directory;
+  }
+  if (entry.mode === SYMLINK_MODE) {
+    return vscode.FileType.File | vscode.FileType.SymbolicLink;
+  }
+  return vscode.FileType.File;
+}
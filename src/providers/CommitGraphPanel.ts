@@ -0,0 +1,373 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { Commit, CommitRef, CommitService } from '../services/CommitService';
+import { GraphLayout, GraphRow } from '../utils/graphLayout';
+
+export interface CommitGraphActions {
+  open(commit: Commit): Promise<void>;
+  compare(commit: Commit): Promise<void>;
+}
+
+interface GraphRowMessage extends GraphRow {
+  sha: string;
+  shortSha: string;
+  subject: string;
+  author: string;
+  relativeDate: string;
+  refs: CommitRef[];
+  isMerge: boolean;
+}
+
+type WebviewMessage =
+  | { type: 'ready' }
+  | { type: 'loadMore' }
+  | { type: 'open'; sha: string }
+  | { type: 'compare'; sha: string };
+
+/**
+ * Webview panel that draws the commit DAG with lanes, merge edges and ref labels.
+ * Rows are laid out here and streamed to the webview a page at a time as it scrolls.
+ */
+export class CommitGraphPanel {
+  private static current: CommitGraphPanel | undefined;
+
+  private layout = new GraphLayout();
+  private rows: GraphRowMessage[] = [];
+  private commits: Map<string, Commit> = new Map();
+  private exhausted = false;
+  private loading = false;
+  private generation = 0;  // Bumped on reset, so a page still loading for the old graph is dropped
+  private disposables: vscode.Disposable[] = [];
+
+  static show(
+    commitService: CommitService,
+    repoPath: string,
+    ref: string | undefined,
+    actions: CommitGraphActions
+  ): void {
+    if (CommitGraphPanel.current) {
+      CommitGraphPanel.current.panel.reveal();
+      CommitGraphPanel.current.reset(repoPath, ref);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'commitview.graph',
+      'Commit Graph',
+      vscode.ViewColumn.Active,
+      { enableScripts: true }
+    );
+
+    CommitGraphPanel.current = new CommitGraphPanel(panel, commitService, repoPath, ref, actions);
+  }
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private commitService: CommitService,
+    private repoPath: string,
+    private ref: string | undefined,
+    private actions: CommitGraphActions
+  ) {
+    this.panel.webview.html = getGraphHtml(this.panel.webview.cspSource);
+
+    this.panel.webview.onDidReceiveMessage(
+      (message: WebviewMessage) => this.handleMessage(message),
+      undefined,
+      this.disposables
+    );
+    this.panel.onDidDispose(() => this.dispose(), undefined, this.disposables);
+  }
+
+  private reset(repoPath: string, ref: string | undefined): void {
+    this.repoPath = repoPath;
+    this.ref = ref;
+    this.layout = new GraphLayout();
+    this.rows = [];
+    this.commits.clear();
+    this.exhausted = false;
+    this.loading = false;
+    this.generation++;
+    this.panel.webview.postMessage({ type: 'reset' });
+    this.loadMore();
+  }
+
+  private async handleMessage(message: WebviewMessage): Promise<void> {
+    switch (message.type) {
+      case 'ready':
+        // The webview may have been reloaded, so send everything we already have
+        if (this.rows.length > 0) {
+          this.postRows(this.rows, true);
+        } else {
+          await this.loadMore();
+        }
+        break;
+      case 'loadMore':
+        await this.loadMore();
+        break;
+      case 'open': {
+        const commit = this.commits.get(message.sha);
+        if (commit) {
+          await this.actions.open(commit);
+        }
+        break;
+      }
+      case 'compare': {
+        const commit = this.commits.get(message.sha);
+        if (commit) {
+          await this.actions.compare(commit);
+        }
+        break;
+      }
+    }
+  }
+
+  private async loadMore(): Promise<void> {
+    if (this.loading || this.exhausted) {
+      return;
+    }
+
+    this.loading = true;
+    const generation = this.generation;
+    try {
+      const config = vscode.workspace.getConfiguration('commitview');
+      const pageSize = config.get<number>('maxCommitHistory', 50);
+      const commits = await this.commitService.getRecentCommits(this.repoPath, pageSize, {
+        skip: this.commits.size,
+        ref: this.ref,
+        topoOrder: true,  // GraphLayout needs children before parents
+      });
+      if (generation !== this.generation) {
+        return;
+      }
+
+      const page: GraphRowMessage[] = [];
+      for (const commit of commits) {
+        if (this.commits.has(commit.sha)) {
+          continue;
+        }
+        this.commits.set(commit.sha, commit);
+        page.push({
+          ...this.layout.add(commit.sha, commit.parents),
+          sha: commit.sha,
+          shortSha: commit.shortSha,
+          subject: commit.subject,
+          author: commit.author,
+          relativeDate: commit.relativeDate,
+          refs: commit.refs,
+          isMerge: commit.parents.length > 1,
+        });
+      }
+
+      this.rows.push(...page);
+      this.exhausted = commits.length < pageSize;
+      this.postRows(page, false);
+    } catch (error) {
+      if (generation !== this.generation) {
+        return;
+      }
+      console.error('Failed to load commit graph:', error);
+      this.exhausted = true;
+      this.postRows([], false);
+    } finally {
+      if (generation === this.generation) {
+        this.loading = false;
+      }
+    }
+  }
+
+  private postRows(rows: GraphRowMessage[], replace: boolean): void {
+    this.panel.webview.postMessage({
+      type: 'rows',
+      rows,
+      replace,
+      width: this.layout.width,
+      exhausted: this.exhausted,
+    });
+  }
+
+  private dispose(): void {
+    CommitGraphPanel.current = undefined;
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.panel.dispose();
+  }
+}
+
+function getGraphHtml(cspSource: string): string {
+  const nonce = randomBytes(16).toString('hex');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy"
+    content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Commit Graph</title>
+  <style>
+    body { padding: 0; margin: 0; font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); }
+    #viewport { position: absolute; inset: 0; overflow-y: auto; }
+    #spacer { position: relative; }
+    .row { position: absolute; left: 0; right: 0; height: 24px; display: flex; align-items: center; cursor: pointer; white-space: nowrap; }
+    .row:hover { background: var(--vscode-list-hoverBackground); }
+    .row svg { flex: none; }
+    .subject { overflow: hidden; text-overflow: ellipsis; flex: 1; padding-left: 4px; }
+    .meta { color: var(--vscode-descriptionForeground); padding: 0 8px; flex: none; }
+    .ref { border-radius: 3px; padding: 0 4px; margin-right: 4px; font-size: 0.9em;
+      background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+    .ref.tag { background: var(--vscode-charts-yellow); color: var(--vscode-editor-background); }
+    .ref.remote { background: var(--vscode-charts-purple); color: var(--vscode-editor-background); }
+    .ref.head { background: var(--vscode-charts-green); color: var(--vscode-editor-background); }
+    .actions { display: none; flex: none; padding-right: 8px; }
+    .row:hover .actions { display: block; }
+    .actions button { background: none; border: none; color: var(--vscode-textLink-foreground); cursor: pointer; }
+    #status { position: fixed; bottom: 4px; right: 8px; color: var(--vscode-descriptionForeground); }
+  </style>
+</head>
+<body>
+  <div id="viewport"><div id="spacer"></div></div>
+  <div id="status">Loading…</div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const ROW_HEIGHT = 24;
+    const LANE_WIDTH = 14;
+    const OVERSCAN = 20;
+    const COLORS = ['--vscode-charts-blue', '--vscode-charts-red', '--vscode-charts-green',
+      '--vscode-charts-yellow', '--vscode-charts-purple', '--vscode-charts-orange'];
+    const SVG_NS = 'http://www.w3.org/2000/svg';
+
+    const viewport = document.getElementById('viewport');
+    const spacer = document.getElementById('spacer');
+    const status = document.getElementById('status');
+
+    let rows = [];
+    let width = 1;
+    let exhausted = false;
+    let requested = false;
+
+    const laneX = (lane) => lane * LANE_WIDTH + LANE_WIDTH / 2;
+    const laneColor = (lane) => 'var(' + COLORS[lane % COLORS.length] + ')';
+
+    function line(svg, x1, y1, x2, y2, lane) {
+      const el = document.createElementNS(SVG_NS, 'line');
+      el.setAttribute('x1', x1); el.setAttribute('y1', y1);
+      el.setAttribute('x2', x2); el.setAttribute('y2', y2);
+      el.setAttribute('stroke', laneColor(lane));
+      el.setAttribute('stroke-width', '2');
+      svg.appendChild(el);
+    }
+
+    function renderGraph(row) {
+      const svg = document.createElementNS(SVG_NS, 'svg');
+      svg.setAttribute('width', width * LANE_WIDTH);
+      svg.setAttribute('height', ROW_HEIGHT);
+      const mid = ROW_HEIGHT / 2;
+      const cx = laneX(row.column);
+
+      for (const lane of row.passThrough) {
+        line(svg, laneX(lane), 0, laneX(lane), ROW_HEIGHT, lane);
+      }
+      for (const lane of row.mergeIn) {
+        line(svg, laneX(lane), 0, cx, mid, lane);
+      }
+      for (const lane of row.parentLanes) {
+        line(svg, cx, mid, laneX(lane), ROW_HEIGHT, lane);
+      }
+
+      const node = document.createElementNS(SVG_NS, 'circle');
+      node.setAttribute('cx', cx);
+      node.setAttribute('cy', mid);
+      node.setAttribute('r', row.isMerge ? '3' : '4');
+      node.setAttribute('stroke', laneColor(row.column));
+      node.setAttribute('stroke-width', '2');
+      node.setAttribute('fill', row.isMerge ? 'var(--vscode-editor-background)' : laneColor(row.column));
+      svg.appendChild(node);
+      return svg;
+    }
+
+    function renderRow(row, index) {
+      const el = document.createElement('div');
+      el.className = 'row';
+      el.style.top = (index * ROW_HEIGHT) + 'px';
+      el.title = row.sha;
+      el.appendChild(renderGraph(row));
+
+      const subject = document.createElement('span');
+      subject.className = 'subject';
+      for (const ref of row.refs) {
+        const badge = document.createElement('span');
+        badge.className = 'ref ' + ref.type;
+        badge.textContent = ref.name;
+        subject.appendChild(badge);
+      }
+      subject.appendChild(document.createTextNode(row.subject));
+      el.appendChild(subject);
+
+      const meta = document.createElement('span');
+      meta.className = 'meta';
+      meta.textContent = row.shortSha + ' • ' + row.author + ' • ' + row.relativeDate;
+      el.appendChild(meta);
+
+      const actions = document.createElement('span');
+      actions.className = 'actions';
+      for (const [label, type] of [['Open', 'open'], ['Compare', 'compare']]) {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.addEventListener('click', (event) => {
+          event.stopPropagation();
+          vscode.postMessage({ type, sha: row.sha });
+        });
+        actions.appendChild(button);
+      }
+      el.appendChild(actions);
+
+      el.addEventListener('click', () => vscode.postMessage({ type: 'open', sha: row.sha }));
+      return el;
+    }
+
+    // Only rows in and near the visible area are in the DOM
+    function render() {
+      spacer.style.height = (rows.length * ROW_HEIGHT) + 'px';
+      const first = Math.max(0, Math.floor(viewport.scrollTop / ROW_HEIGHT) - OVERSCAN);
+      const last = Math.min(rows.length, Math.ceil((viewport.scrollTop + viewport.clientHeight) / ROW_HEIGHT) + OVERSCAN);
+
+      spacer.replaceChildren();
+      for (let i = first; i < last; i++) {
+        spacer.appendChild(renderRow(rows[i], i));
+      }
+
+      if (!exhausted && !requested && last >= rows.length - OVERSCAN) {
+        requested = true;
+        status.textContent = 'Loading…';
+        vscode.postMessage({ type: 'loadMore' });
+      }
+    }
+
+    window.addEventListener('message', (event) => {
+      const message = event.data;
+      if (message.type === 'reset') {
+        rows = [];
+        exhausted = false;
+        requested = true;
+        viewport.scrollTop = 0;
+        render();
+        return;
+      }
+      if (message.type === 'rows') {
+        rows = message.replace ? message.rows : rows.concat(message.rows);
+        width = Math.max(1, message.width);
+        exhausted = message.exhausted;
+        requested = false;
+        status.textContent = exhausted ? rows.length + ' commits' : rows.length + ' commits loaded';
+        render();
+      }
+    });
+
+    viewport.addEventListener('scroll', () => requestAnimationFrame(render));
+    window.addEventListener('resize', () => requestAnimationFrame(render));
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+}
@@ -1,24 +1,88 @@
 import * as vscode from 'vscode';
-import { Commit, CommitService } from '../services/CommitService';
+import { ALL_REFS, Commit, CommitRef, CommitService } from '../services/CommitService';
 import { GitService } from '../services/GitService';
+import { DiffFile, DiffService } from '../services/DiffService';
+import { DiffRef, DiffTreeItem, getParentRef } from './DiffTreeProvider';
 
-export class CommitListProvider implements vscode.TreeDataProvider<CommitTreeItem> {
-  private _onDidChangeTreeData: vscode.EventEmitter<CommitTreeItem | undefined | null | void> =
-    new vscode.EventEmitter<CommitTreeItem | undefined | null | void>();
-  readonly onDidChangeTreeData: vscode.Event<CommitTreeItem | undefined | null | void> =
+type CommitListNode = CommitTreeItem | CommitFileTreeItem | LoadMoreTreeItem;
+
+interface CommitCache {
+  commits: Commit[];
+  headSha: string;
+  exhausted: boolean;  // True once the oldest commit has been loaded
+}
+
+const SELECTED_REF_KEY = 'commitview.commitListRef';
+const FIRST_PARENT_KEY = 'commitview.commitListFirstParent';
+
+const REF_ICONS: Record<CommitRef['type'], string> = {
+  head: 'target',
+  branch: 'git-branch',
+  remote: 'cloud',
+  tag: 'tag',
+};
+
+export class CommitListProvider implements vscode.TreeDataProvider<CommitListNode> {
+  private _onDidChangeTreeData: vscode.EventEmitter<CommitListNode | undefined | null | void> =
+    new vscode.EventEmitter<CommitListNode | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<CommitListNode | undefined | null | void> =
     this._onDidChangeTreeData.event;
 
-  private commits: Commit[] = [];
+  // Keyed by repo path and branch so switching branches keeps each history
+  private caches: Map<string, CommitCache> = new Map();
+  private cacheKey: string | undefined;
   private repoPath: string | undefined;
+  private currentBranch: string | undefined;
+  private loadingMore = false;
+
+  // A commit's changes never change, so files are cached by sha for the session
+  private changedFiles: Map<string, DiffFile[]> = new Map();
 
   constructor(
     private commitService: CommitService,
-    private gitService: GitService
+    private gitService: GitService,
+    private diffService: DiffService,
+    private workspaceState: vscode.Memento
   ) {}
 
+  /**
+   * Ref the list is logged from: a branch, tag or remote ref, ALL_REFS, or undefined for HEAD
+   */
+  getSelectedRef(): string | undefined {
+    return this.workspaceState.get<string>(SELECTED_REF_KEY);
+  }
+
+  async setSelectedRef(ref: string | undefined): Promise<void> {
+    await this.workspaceState.update(SELECTED_REF_KEY, ref);
+    await this.refresh();
+  }
+
+  getSelectedRefLabel(): string {
+    const ref = this.getSelectedRef();
+    if (ref === ALL_REFS) {
+      return 'All refs';
+    }
+    if (ref) {
+      return ref;
+    }
+    return this.currentBranch && this.currentBranch !== 'HEAD' ? this.currentBranch : 'HEAD';
+  }
+
+  /**
+   * Whether the list follows only the first parent of merges, i.e. the mainline of the branch
+   */
+  isFirstParentOnly(): boolean {
+    return this.workspaceState.get<boolean>(FIRST_PARENT_KEY, false);
+  }
+
+  async setFirstParentOnly(firstParent: boolean): Promise<void> {
+    await this.workspaceState.update(FIRST_PARENT_KEY, firstParent);
+    await this.refresh();
+  }
+
   async initialize(): Promise<void> {
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
       return;
     }
 
@@ -31,53 +95,203 @@ export class CommitListProvider implements vscode.TreeDataProvider<CommitTreeIte
     await this.refresh();
   }
 
+  /**
+   * Fetch only commits newer than the cached head. Falls back to reloading the
+   * first page when the branch has no cache yet or its history was rewritten.
+   */
   async refresh(): Promise<void> {
     if (!this.repoPath) {
       return;
     }
 
     try {
-      const config = vscode.workspace.getConfiguration('commitview');
-      const maxCommits = config.get<number>('maxCommitHistory', 50);
-      this.commits = await this.commitService.getRecentCommits(this.repoPath, maxCommits);
+      const ref = await this.getValidSelectedRef(this.repoPath);
+      this.currentBranch = await this.gitService.getCurrentBranch(this.repoPath);
+      const headSha = await this.resolveHead(this.repoPath, ref);
+      const firstParent = this.isFirstParentOnly();
+      this.cacheKey = `${this.repoPath}\0${ref ?? this.currentBranch}\0${firstParent}`;
+
+      const cache = this.caches.get(this.cacheKey);
+
+      if (cache && cache.headSha === headSha) {
+        // Nothing new
+      } else if (
+        cache &&
+        ref !== ALL_REFS &&
+        (await this.gitService.isAncestor(this.repoPath, cache.headSha, headSha))
+      ) {
+        const newer = await this.commitService.getCommitsBetween(this.repoPath, cache.headSha, headSha, {
+          firstParent,
+        });
+        cache.commits = [...newer, ...cache.commits];
+        cache.headSha = headSha;
+      } else {
+        const pageSize = this.getPageSize();
+        const commits = await this.commitService.getRecentCommits(this.repoPath, pageSize, { ref, firstParent });
+        this.caches.set(this.cacheKey, {
+          commits,
+          headSha,
+          exhausted: commits.length < pageSize,
+        });
+      }
     } catch (error) {
       console.error('Failed to fetch commits:', error);
-      this.commits = [];
+      if (this.cacheKey) {
+        this.caches.delete(this.cacheKey);
+      }
     }
 
     this._onDidChangeTreeData.fire();
   }
 
-  getTreeItem(element: CommitTreeItem): vscode.TreeItem {
+  /**
+   * Append the next page of older commits
+   */
+  async loadMore(): Promise<void> {
+    const cache = this.getCache();
+    if (!this.repoPath || !cache || cache.exhausted || this.loadingMore) {
+      return;
+    }
+
+    this.loadingMore = true;
+    try {
+      const pageSize = this.getPageSize();
+      const older = await this.commitService.getRecentCommits(this.repoPath, pageSize, {
+        skip: cache.commits.length,
+        ref: this.getSelectedRef(),
+        firstParent: this.isFirstParentOnly(),
+      });
+
+      // Skip anything already cached in case history moved underneath us
+      const known = new Set(cache.commits.map((c) => c.sha));
+      cache.commits.push(...older.filter((c) => !known.has(c.sha)));
+      cache.exhausted = older.length < pageSize;
+    } catch (error) {
+      console.error('Failed to fetch more commits:', error);
+    } finally {
+      this.loadingMore = false;
+    }
+
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: CommitListNode): vscode.TreeItem {
     return element;
   }
 
-  getChildren(element?: CommitTreeItem): Thenable<CommitTreeItem[]> {
+  getChildren(element?: CommitListNode): Thenable<CommitListNode[]> {
+    if (element instanceof CommitTreeItem) {
+      return this.getCommitFiles(element.commit);
+    }
     if (element) {
       return Promise.resolve([]);
     }
 
-    return Promise.resolve(
-      this.commits.map((commit) => new CommitTreeItem(commit))
-    );
+    const cache = this.getCache();
+    if (!cache) {
+      return Promise.resolve([]);
+    }
+
+    const items: CommitListNode[] = cache.commits.map((commit) => new CommitTreeItem(commit));
+    if (!cache.exhausted) {
+      items.push(new LoadMoreTreeItem());
+    }
+
+    return Promise.resolve(items);
   }
 
   getCommitBySha(sha: string): Commit | undefined {
-    return this.commits.find((c) => c.sha === sha);
+    return this.getCache()?.commits.find((c) => c.sha === sha);
+  }
+
+  /**
+   * Files changed by a commit relative to its first parent
+   */
+  private async getCommitFiles(commit: Commit): Promise<CommitListNode[]> {
+    if (!this.repoPath) {
+      return [];
+    }
+
+    const repoPath = this.repoPath;
+    const base = getParentRef(commit);
+    const target = { ref: commit.sha, label: commit.shortSha };
+
+    let files = this.changedFiles.get(commit.sha);
+    if (!files) {
+      try {
+        files = await this.diffService.getChangedFiles(repoPath, base.ref, target.ref);
+        this.changedFiles.set(commit.sha, files);
+      } catch (error) {
+        console.error('Failed to get changed files:', error);
+        return [];
+      }
+    }
+
+    return files.map((file) => new CommitFileTreeItem(commit, file, repoPath, base, target));
+  }
+
+  /**
+   * Fall back to HEAD if the persisted ref was deleted since it was selected
+   */
+  private async getValidSelectedRef(repoPath: string): Promise<string | undefined> {
+    const ref = this.getSelectedRef();
+    if (ref && ref !== ALL_REFS && !(await this.gitService.commitExists(repoPath, ref))) {
+      await this.workspaceState.update(SELECTED_REF_KEY, undefined);
+      return undefined;
+    }
+    return ref;
+  }
+
+  /**
+   * Identify the tip of the selected history. For ALL_REFS this is a signature of every ref,
+   * which only tells us whether anything moved, so that case always reloads the first page.
+   */
+  private async resolveHead(repoPath: string, ref: string | undefined): Promise<string> {
+    if (ref === ALL_REFS) {
+      const refs = await this.gitService.listRefs(repoPath);
+      return refs.map((r) => `${r.fullName}:${r.sha}`).join(',');
+    }
+    if (ref) {
+      return this.gitService.resolveCommit(repoPath, ref);
+    }
+    return this.gitService.getCurrentCommitSha(repoPath);
+  }
+
+  private getCache(): CommitCache | undefined {
+    return this.cacheKey ? this.caches.get(this.cacheKey) : undefined;
+  }
+
+  private getPageSize(): number {
+    const config = vscode.workspace.getConfiguration('commitview');
+    return config.get<number>('maxCommitHistory', 50);
+  }
+}
+
+export class LoadMoreTreeItem extends vscode.TreeItem {
+  constructor() {
+    super('Load more commits…', vscode.TreeItemCollapsibleState.None);
+
+    this.id = 'commitview.loadMore';
+    this.iconPath = new vscode.ThemeIcon('fold-down');
+    this.contextValue = 'loadMore';
+    this.command = {
+      command: 'commitview.loadMoreCommits',
+      title: 'Load More Commits',
+    };
   }
 }
 
 export class CommitTreeItem extends vscode.TreeItem {
   constructor(public readonly commit: Commit) {
-    super(commit.subject, vscode.TreeItemCollapsibleState.None);
+    super(commit.subject, vscode.TreeItemCollapsibleState.Collapsed);
 
     this.id = commit.sha;
-    this.description = `${commit.shortSha} • ${commit.relativeDate}`;
+    this.description = this.createDescription();
     this.tooltip = this.createTooltip();
     this.contextValue = 'commit';
 
-    // Icon based on commit age
-    this.iconPath = new vscode.ThemeIcon('git-commit');
+    // Merges get their own icon so they stand out in a first-parent history
+    this.iconPath = new vscode.ThemeIcon(this.isMerge() ? 'git-merge' : 'git-commit');
 
     // Make the entire row clickable to view the commit
     this.command = {
@@ -87,10 +301,31 @@ export class CommitTreeItem extends vscode.TreeItem {
     };
   }
 
+  private isMerge(): boolean {
+    return this.commit.parents.length > 1;
+  }
+
+  private createDescription(): string {
+    const badges = this.commit.refs
+      .filter((ref) => ref.type !== 'head')
+      .map((ref) => `[${ref.name}]`)
+      .join(' ');
+    const summary = `${this.commit.shortSha} • ${this.commit.relativeDate}`;
+    return badges ? `${badges} ${summary}` : summary;
+  }
+
   private createTooltip(): vscode.MarkdownString {
     const md = new vscode.MarkdownString();
     md.appendMarkdown(`**${this.commit.subject}**\n\n`);
     md.appendMarkdown(`$(git-commit) \`${this.commit.sha}\`\n\n`);
+    if (this.isMerge()) {
+      const parents = this.commit.parents.map((sha) => `\`${sha.substring(0, 7)}\``).join(', ');
+      md.appendMarkdown(`$(git-merge) Merge of ${parents}\n\n`);
+    }
+    if (this.commit.refs.length > 0) {
+      const refs = this.commit.refs.map((ref) => `$(${REF_ICONS[ref.type]}) ${ref.name}`).join('  ');
+      md.appendMarkdown(`${refs}\n\n`);
+    }
     md.appendMarkdown(`$(person) ${this.commit.author}\n\n`);
     md.appendMarkdown(`$(calendar) ${this.commit.relativeDate}\n\n`);
 
@@ -102,3 +337,21 @@ export class CommitTreeItem extends vscode.TreeItem {
     return md;
   }
 }
+
+/**
+ * A file changed by a commit, diffed against the commit's first parent
+ */
+export class CommitFileTreeItem extends DiffTreeItem {
+  constructor(
+    public readonly commit: Commit,
+    diffFile: DiffFile,
+    repoPath: string,
+    base: DiffRef,
+    target: DiffRef
+  ) {
+    super(diffFile, repoPath, base, target, true);
+
+    this.id = `${commit.sha}:${diffFile.path}`;
+    this.contextValue = 'commitFile';
+  }
+}
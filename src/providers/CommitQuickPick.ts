@@ -22,25 +22,70 @@ export async function showCommitPicker(commits: Commit[]): Promise<Commit | unde
   return selected?.commit;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+
 export async function showCommitPickerWithSearch(
   getCommits: (query?: string) => Promise<Commit[]>
 ): Promise<Commit | undefined> {
   const quickPick = vscode.window.createQuickPick<CommitQuickPickItem>();
-  quickPick.placeholder = 'Search commits by message, or select from recent commits';
+  quickPick.placeholder =
+    'Search messages, or use author: since: until: path: -S -G, or enter a SHA or ref';
   quickPick.matchOnDescription = true;
   quickPick.matchOnDetail = true;
 
+  // Results come from git, so they must not be filtered again by the quick pick
+  const toItems = (commits: Commit[], alwaysShow: boolean): CommitQuickPickItem[] =>
+    commits.map((commit) => ({
+      label: `$(git-commit) ${commit.shortSha}`,
+      description: commit.subject,
+      detail: `${commit.author} • ${commit.relativeDate}`,
+      alwaysShow,
+      commit,
+    }));
+
   // Load initial commits
   quickPick.busy = true;
   const initialCommits = await getCommits();
-  quickPick.items = initialCommits.map((commit) => ({
-    label: `$(git-commit) ${commit.shortSha}`,
-    description: commit.subject,
-    detail: `${commit.author} • ${commit.relativeDate}`,
-    commit,
-  }));
+  quickPick.items = toItems(initialCommits, false);
   quickPick.busy = false;
 
+  let debounceTimer: NodeJS.Timeout | undefined;
+  let searchId = 0;
+
+  quickPick.onDidChangeValue((value) => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+
+    const query = value.trim();
+    if (!query) {
+      searchId++;
+      quickPick.busy = false;
+      quickPick.items = toItems(initialCommits, false);
+      return;
+    }
+
+    debounceTimer = setTimeout(async () => {
+      const id = ++searchId;
+      quickPick.busy = true;
+      try {
+        const commits = await getCommits(query);
+        // Ignore results from a search that has since been superseded
+        if (id === searchId) {
+          quickPick.items = toItems(commits, true);
+        }
+      } catch {
+        if (id === searchId) {
+          quickPick.items = [];
+        }
+      } finally {
+        if (id === searchId) {
+          quickPick.busy = false;
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+  });
+
   return new Promise<Commit | undefined>((resolve) => {
     quickPick.onDidAccept(() => {
       const selected = quickPick.selectedItems[0];
@@ -49,6 +94,9 @@ export async function showCommitPickerWithSearch(
     });
 
     quickPick.onDidHide(() => {
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+      }
       quickPick.dispose();
       resolve(undefined);
     });
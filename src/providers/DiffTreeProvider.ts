@@ -1,39 +1,153 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { DiffService, DiffFile } from '../services/DiffService';
+import { COMBINED_PARENTS_REF, DiffService, DiffFile, DiffFileStatus, EMPTY_TREE_SHA } from '../services/DiffService';
+import { Commit } from '../services/CommitService';
+import { toCombinedDiffUri, toCommitContentUri, toRevisionUri } from './CommitContentProvider';
+import { matchesAnyGlob } from '../utils/glob';
 
-export class DiffTreeProvider implements vscode.TreeDataProvider<DiffTreeItem> {
-  private _onDidChangeTreeData: vscode.EventEmitter<DiffTreeItem | undefined | null | void> =
-    new vscode.EventEmitter<DiffTreeItem | undefined | null | void>();
-  readonly onDidChangeTreeData: vscode.Event<DiffTreeItem | undefined | null | void> =
+const STATUS_LABELS: Record<DiffFileStatus, string> = {
+  added: 'Added',
+  modified: 'Modified',
+  deleted: 'Deleted',
+  renamed: 'Renamed',
+  copied: 'Copied',
+  typeChanged: 'Type changed',
+  unmerged: 'Unmerged',
+  unknown: 'Unknown',
+};
+
+export interface DiffRef {
+  ref: string;    // Commit-ish passed to git, or WORKING_TREE_REF
+  label: string;  // Shown in the view description and diff titles
+}
+
+export type DiffViewMode = 'list' | 'tree';
+
+export interface DiffFilter {
+  pathPatterns: string[];      // Globs; empty matches every path
+  statuses: DiffFileStatus[];  // Empty matches every status
+  hideGenerated: boolean;      // Hide paths matching commitview.generatedFilePatterns
+}
+
+export const EMPTY_DIFF_FILTER: DiffFilter = { pathPatterns: [], statuses: [], hideGenerated: false };
+
+/**
+ * Base for showing a commit's own changes: its first parent, or the empty tree for a root commit
+ */
+export function getParentRef(commit: Commit): DiffRef {
+  if (commit.parents.length === 0) {
+    return { ref: EMPTY_TREE_SHA, label: 'empty tree' };
+  }
+  return { ref: commit.parents[0], label: commit.parents[0].substring(0, 7) };
+}
+
+type DiffNode = DiffFolderItem | DiffTreeItem;
+
+interface FolderNode {
+  name: string;
+  path: string;
+  folders: Map<string, FolderNode>;
+  files: DiffFile[];
+}
+
+export class DiffTreeProvider implements vscode.TreeDataProvider<DiffNode> {
+  private _onDidChangeTreeData: vscode.EventEmitter<DiffNode | undefined | null | void> =
+    new vscode.EventEmitter<DiffNode | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<DiffNode | undefined | null | void> =
     this._onDidChangeTreeData.event;
 
   private diffFiles: DiffFile[] = [];
   private originalRepoPath: string = '';
-  private worktreeCommitSha: string = '';
-  private currentCommitSha: string = '';
+  private base: DiffRef | undefined;
+  private target: DiffRef | undefined;
+  private filter: DiffFilter = EMPTY_DIFF_FILTER;
 
   constructor(private diffService: DiffService) {}
 
-  async initialize(
-    originalRepoPath: string,
-    worktreeCommitSha: string,
-    currentCommitSha: string
-  ): Promise<void> {
+  async initialize(originalRepoPath: string, base: DiffRef, target: DiffRef): Promise<void> {
     this.originalRepoPath = originalRepoPath;
-    this.worktreeCommitSha = worktreeCommitSha;
-    this.currentCommitSha = currentCommitSha;
+    await this.setRange(base, target);
+  }
 
+  async setRange(base: DiffRef, target: DiffRef): Promise<void> {
+    this.base = base;
+    this.target = target;
     await this.refresh();
   }
 
+  async swapSides(): Promise<void> {
+    // A combined diff only makes sense from the parents to the merge
+    if (!this.base || !this.target || this.base.ref === COMBINED_PARENTS_REF) {
+      return;
+    }
+    await this.setRange(this.target, this.base);
+  }
+
+  getRange(): { base: DiffRef; target: DiffRef } | undefined {
+    if (!this.base || !this.target) {
+      return undefined;
+    }
+    return { base: this.base, target: this.target };
+  }
+
+  getRepoPath(): string {
+    return this.originalRepoPath;
+  }
+
+  getRangeLabel(): string {
+    if (!this.base || !this.target) {
+      return '';
+    }
+    return `${this.base.label} ↔ ${this.target.label}`;
+  }
+
+  getViewMode(): DiffViewMode {
+    const config = vscode.workspace.getConfiguration('commitview');
+    return config.get<DiffViewMode>('diffViewMode', 'list');
+  }
+
+  getFilter(): DiffFilter {
+    return this.filter;
+  }
+
+  setFilter(filter: DiffFilter): void {
+    this.filter = filter;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Re-render without refetching, e.g. after the view mode setting changes
+   */
+  rerender(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  isFiltered(): boolean {
+    return (
+      this.filter.pathPatterns.length > 0 ||
+      this.filter.statuses.length > 0 ||
+      this.filter.hideGenerated
+    );
+  }
+
+  /**
+   * Message for the view body when a filter hides some files
+   */
+  getFilterMessage(): string | undefined {
+    if (!this.isFiltered()) {
+      return undefined;
+    }
+    const visible = this.getVisibleFiles().length;
+    return `Showing ${visible} of ${this.diffFiles.length} changed files (filtered)`;
+  }
+
   async refresh(): Promise<void> {
-    if (this.originalRepoPath && this.worktreeCommitSha && this.currentCommitSha) {
+    if (this.originalRepoPath && this.base && this.target) {
       try {
         this.diffFiles = await this.diffService.getChangedFiles(
           this.originalRepoPath,
-          this.worktreeCommitSha,
-          this.currentCommitSha
+          this.base.ref,
+          this.target.ref
         );
       } catch {
         this.diffFiles = [];
@@ -42,21 +156,29 @@ export class DiffTreeProvider implements vscode.TreeDataProvider<DiffTreeItem> {
     this._onDidChangeTreeData.fire();
   }
 
-  getTreeItem(element: DiffTreeItem): vscode.TreeItem {
+  getTreeItem(element: DiffNode): vscode.TreeItem {
     return element;
   }
 
-  getChildren(element?: DiffTreeItem): Thenable<DiffTreeItem[]> {
-    if (element) {
-      return Promise.resolve([]);
+  getChildren(element?: DiffNode): Thenable<DiffNode[]> {
+    if (element instanceof DiffFolderItem) {
+      return Promise.resolve(this.createNodes(element.folder));
     }
 
-    if (this.diffFiles.length === 0) {
+    if (element || this.diffFiles.length === 0 || !this.base || !this.target) {
       return Promise.resolve([]);
     }
 
+    const files = this.getVisibleFiles();
+
+    if (this.getViewMode() === 'tree') {
+      return Promise.resolve(this.createNodes(this.buildFolderTree(files)));
+    }
+
+    const base = this.base;
+    const target = this.target;
     return Promise.resolve(
-      this.diffFiles.map((file) => new DiffTreeItem(file, this.originalRepoPath))
+      files.map((file) => new DiffTreeItem(file, this.originalRepoPath, base, target, true))
     );
   }
 
@@ -67,12 +189,117 @@ export class DiffTreeProvider implements vscode.TreeDataProvider<DiffTreeItem> {
       deletions: this.diffFiles.reduce((sum, f) => sum + f.deletions, 0),
     };
   }
+
+  private getVisibleFiles(): DiffFile[] {
+    const { pathPatterns, statuses, hideGenerated } = this.filter;
+    const config = vscode.workspace.getConfiguration('commitview');
+    const generatedPatterns = hideGenerated ? config.get<string[]>('generatedFilePatterns', []) : [];
+
+    return this.diffFiles.filter((file) => {
+      if (statuses.length > 0 && !statuses.includes(file.status)) {
+        return false;
+      }
+      if (pathPatterns.length > 0 && !matchesAnyGlob(file.path, pathPatterns)) {
+        return false;
+      }
+      if (generatedPatterns.length > 0 && matchesAnyGlob(file.path, generatedPatterns)) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private buildFolderTree(files: DiffFile[]): FolderNode {
+    const root: FolderNode = { name: '', path: '', folders: new Map(), files: [] };
+
+    for (const file of files) {
+      const segments = file.path.split('/');
+      segments.pop();
+
+      let folder = root;
+      for (const segment of segments) {
+        let child = folder.folders.get(segment);
+        if (!child) {
+          const childPath = folder.path ? `${folder.path}/${segment}` : segment;
+          child = { name: segment, path: childPath, folders: new Map(), files: [] };
+          folder.folders.set(segment, child);
+        }
+        folder = child;
+      }
+      folder.files.push(file);
+    }
+
+    return root;
+  }
+
+  private createNodes(folder: FolderNode): DiffNode[] {
+    const base = this.base!;
+    const target = this.target!;
+
+    const folders = [...folder.folders.values()]
+      .map((child) => this.compressFolder(child))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((child) => new DiffFolderItem(child, collectFiles(child), this.originalRepoPath));
+
+    const files = [...folder.files]
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map((file) => new DiffTreeItem(file, this.originalRepoPath, base, target, false));
+
+    return [...folders, ...files];
+  }
+
+  /**
+   * Merge chains of folders that only contain a single subfolder, e.g. "src/utils"
+   */
+  private compressFolder(folder: FolderNode): FolderNode {
+    let current = folder;
+    let name = folder.name;
+
+    while (current.files.length === 0 && current.folders.size === 1) {
+      const [only] = current.folders.values();
+      name = `${name}/${only.name}`;
+      current = only;
+    }
+
+    return current === folder ? folder : { ...current, name };
+  }
 }
 
-class DiffTreeItem extends vscode.TreeItem {
+function collectFiles(folder: FolderNode): DiffFile[] {
+  const files = [...folder.files];
+  for (const child of folder.folders.values()) {
+    files.push(...collectFiles(child));
+  }
+  return files;
+}
+
+class DiffFolderItem extends vscode.TreeItem {
+  constructor(
+    public readonly folder: FolderNode,
+    files: DiffFile[],
+    repoPath: string
+  ) {
+    super(folder.name, vscode.TreeItemCollapsibleState.Expanded);
+
+    const additions = files.reduce((sum, f) => sum + f.additions, 0);
+    const deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+
+    this.id = `folder:${folder.path}`;
+    this.description = `+${additions} -${deletions}`;
+    this.tooltip = `${folder.path}\n${files.length} file${files.length === 1 ? '' : 's'} changed, +${additions} -${deletions}`;
+    this.iconPath = vscode.ThemeIcon.Folder;
+    this.resourceUri = vscode.Uri.file(path.join(repoPath, folder.path));
+    this.contextValue = 'diffFolder';
+  }
+}
+
+export class DiffTreeItem extends vscode.TreeItem {
   constructor(
     public readonly diffFile: DiffFile,
-    public readonly repoPath: string
+    public readonly repoPath: string,
+    public readonly base: DiffRef,
+    public readonly target: DiffRef,
+    protected readonly showDirectory: boolean
   ) {
     super(path.basename(diffFile.path), vscode.TreeItemCollapsibleState.None);
 
@@ -81,39 +308,107 @@ class DiffTreeItem extends vscode.TreeItem {
     this.iconPath = this.getIcon();
     this.contextValue = 'diffFile';
 
-    // Command to open diff view
-    this.command = {
-      command: 'vscode.diff',
-      title: 'Show Diff',
-      arguments: [
-        vscode.Uri.file(path.join(repoPath, diffFile.path)),
-        vscode.Uri.file(path.join(repoPath, diffFile.path)),
-        `${diffFile.path} (Changes)`,
-      ],
-    };
+    // Command to open diff view between the two revisions
+    if (base.ref === COMBINED_PARENTS_REF) {
+      this.command = {
+        command: 'vscode.open',
+        title: 'Show Combined Diff',
+        arguments: [toCombinedDiffUri(repoPath, target.ref, diffFile.path)],
+      };
+    } else {
+      this.command = {
+        command: 'vscode.diff',
+        title: 'Show Diff',
+        arguments: [this.getLeftUri(), this.getRightUri(), this.getDiffTitle()],
+      };
+    }
+  }
+
+  private getLeftUri(): vscode.Uri {
+    const leftPath = this.diffFile.oldPath ?? this.diffFile.path;
+
+    // Missing sides resolve to empty revision content rather than a nonexistent file
+    if (this.diffFile.status === 'added') {
+      return toCommitContentUri(this.repoPath, this.base.ref, leftPath);
+    }
+    return toRevisionUri(this.repoPath, this.base.ref, leftPath);
+  }
+
+  private getRightUri(): vscode.Uri {
+    if (this.diffFile.status === 'deleted') {
+      return toCommitContentUri(this.repoPath, this.target.ref, this.diffFile.path);
+    }
+    return toRevisionUri(this.repoPath, this.target.ref, this.diffFile.path);
+  }
+
+  private getDiffTitle(): string {
+    const range = `${this.base.label} ↔ ${this.target.label}`;
+
+    if (this.diffFile.oldPath && this.diffFile.oldPath !== this.diffFile.path) {
+      return `${this.diffFile.oldPath} → ${this.diffFile.path} (${range})`;
+    }
+
+    return `${this.diffFile.path} (${range})`;
   }
 
   private getDescription(): string {
     const dirPath = path.dirname(this.diffFile.path);
-    const stats = `+${this.diffFile.additions} -${this.diffFile.deletions}`;
+    const stats = this.getStatsLabel();
 
-    if (dirPath === '.') {
+    if (!this.showDirectory || dirPath === '.') {
       return stats;
     }
 
     return `${dirPath} ${stats}`;
   }
 
+  private getStatsLabel(): string {
+    if (this.diffFile.binary) {
+      return 'binary';
+    }
+
+    if (this.isModeOnlyChange()) {
+      return `mode ${this.diffFile.newMode}`;
+    }
+
+    return `+${this.diffFile.additions} -${this.diffFile.deletions}`;
+  }
+
+  private isModeOnlyChange(): boolean {
+    return (
+      this.diffFile.status === 'modified' &&
+      this.diffFile.additions === 0 &&
+      this.diffFile.deletions === 0 &&
+      this.hasModeChange()
+    );
+  }
+
+  private hasModeChange(): boolean {
+    const { oldMode, newMode } = this.diffFile;
+    return !!oldMode && !!newMode && oldMode !== newMode;
+  }
+
   private getTooltip(): string {
     const lines = [
       `File: ${this.diffFile.path}`,
-      `Status: ${this.diffFile.status}`,
-      `Additions: +${this.diffFile.additions}`,
-      `Deletions: -${this.diffFile.deletions}`,
+      `Status: ${STATUS_LABELS[this.diffFile.status]}`,
     ];
 
+    if (this.diffFile.binary) {
+      lines.push('Binary file');
+    } else {
+      lines.push(`Additions: +${this.diffFile.additions}`);
+      lines.push(`Deletions: -${this.diffFile.deletions}`);
+    }
+
     if (this.diffFile.oldPath) {
-      lines.push(`Renamed from: ${this.diffFile.oldPath}`);
+      const verb = this.diffFile.status === 'copied' ? 'Copied from' : 'Renamed from';
+      const similarity = this.diffFile.similarity !== undefined ? ` (${this.diffFile.similarity}% similar)` : '';
+      lines.push(`${verb}: ${this.diffFile.oldPath}${similarity}`);
+    }
+
+    if (this.hasModeChange()) {
+      lines.push(`Mode: ${this.diffFile.oldMode} → ${this.diffFile.newMode}`);
     }
 
     return lines.join('\n');
@@ -127,8 +422,19 @@ class DiffTreeItem extends vscode.TreeItem {
         return new vscode.ThemeIcon('diff-removed', new vscode.ThemeColor('gitDecoration.deletedResourceForeground'));
       case 'renamed':
         return new vscode.ThemeIcon('diff-renamed', new vscode.ThemeColor('gitDecoration.renamedResourceForeground'));
+      case 'copied':
+        return new vscode.ThemeIcon('copy', new vscode.ThemeColor('gitDecoration.addedResourceForeground'));
+      case 'typeChanged':
+        return new vscode.ThemeIcon('file-symlink-file', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'));
+      case 'unmerged':
+        return new vscode.ThemeIcon('warning', new vscode.ThemeColor('gitDecoration.conflictingResourceForeground'));
+      case 'unknown':
+        return new vscode.ThemeIcon('question', new vscode.ThemeColor('gitDecoration.ignoredResourceForeground'));
       case 'modified':
       default:
+        if (this.diffFile.binary) {
+          return new vscode.ThemeIcon('file-binary', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'));
+        }
         return new vscode.ThemeIcon('diff-modified', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'));
     }
   }
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { GitRef, GitRefType } from '../services/GitService';
+
+export interface RefQuickPickItem extends vscode.QuickPickItem {
+  ref?: string;   // Undefined for separators
+  name?: string;  // Plain display name without icons
+}
+
+const REF_GROUPS: { type: GitRefType; title: string; icon: string }[] = [
+  { type: 'branch', title: 'Branches', icon: 'git-branch' },
+  { type: 'remote', title: 'Remote Branches', icon: 'cloud' },
+  { type: 'tag', title: 'Tags', icon: 'tag' },
+];
+
+export function createSeparator(label: string): RefQuickPickItem {
+  return { label, kind: vscode.QuickPickItemKind.Separator };
+}
+
+/**
+ * Build quick pick items for refs, grouped by branches, remote branches and tags
+ */
+export function createRefItems(refs: GitRef[]): RefQuickPickItem[] {
+  const items: RefQuickPickItem[] = [];
+
+  for (const group of REF_GROUPS) {
+    const groupRefs = refs.filter((r) => r.type === group.type);
+    if (groupRefs.length === 0) {
+      continue;
+    }
+
+    items.push(createSeparator(group.title));
+    for (const ref of groupRefs) {
+      items.push({
+        label: `$(${group.icon}) ${ref.name}`,
+        description: ref.sha.substring(0, 7),
+        ref: ref.name,
+        name: ref.name,
+      });
+    }
+  }
+
+  return items;
+}
+
+export async function showRefPicker(
+  items: RefQuickPickItem[],
+  placeHolder: string
+): Promise<RefQuickPickItem | undefined> {
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder,
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+
+  return selected?.ref !== undefined ? selected : undefined;
+}
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import { GitService } from '../services/GitService';
+import { WorktreeRefKind, WorktreeSource } from '../services/WorktreeManager';
+
+// Group headers, entries, and a placeholder for an empty group
+type RefSourceNode = RefSourceGroupItem | RefSourceTreeItem | vscode.TreeItem;
+
+const GROUPS: { kind: WorktreeRefKind; title: string; icon: string; empty: string }[] = [
+  { kind: 'stash', title: 'Stashes', icon: 'archive', empty: 'No stashes' },
+  { kind: 'tag', title: 'Tags', icon: 'tag', empty: 'No tags' },
+  { kind: 'reflog', title: 'Reflog', icon: 'history', empty: 'No reflog entries' },
+];
+
+/**
+ * Commits the linear log does not show: stash entries, tags, and where HEAD has been
+ */
+export class RefSourcesProvider implements vscode.TreeDataProvider<RefSourceNode> {
+  private _onDidChangeTreeData: vscode.EventEmitter<RefSourceNode | undefined | null | void> =
+    new vscode.EventEmitter<RefSourceNode | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<RefSourceNode | undefined | null | void> =
+    this._onDidChangeTreeData.event;
+
+  constructor(private gitService: GitService) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: RefSourceNode): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: RefSourceNode): Promise<RefSourceNode[]> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
+      return [];
+    }
+
+    const repoPath = workspaceFolder.uri.fsPath;
+
+    if (!element) {
+      if (!(await this.gitService.isGitRepository(repoPath))) {
+        return [];
+      }
+      return GROUPS.map((group) => new RefSourceGroupItem(group.kind, group.title, group.icon));
+    }
+
+    if (!(element instanceof RefSourceGroupItem)) {
+      return [];
+    }
+
+    try {
+      const items = await this.getGroupItems(repoPath, element.kind);
+      if (items.length > 0) {
+        return items;
+      }
+    } catch (error) {
+      console.error(`Failed to list ${element.kind} entries:`, error);
+    }
+
+    return [new vscode.TreeItem(GROUPS.find((group) => group.kind === element.kind)!.empty)];
+  }
+
+  private async getGroupItems(repoPath: string, kind: WorktreeRefKind): Promise<RefSourceTreeItem[]> {
+    switch (kind) {
+      case 'stash': {
+        const stashes = await this.gitService.listStashes(repoPath);
+        return stashes.map((entry) => new RefSourceTreeItem(
+          { kind, ref: entry.selector, message: entry.message },
+          entry.sha,
+          entry.message,
+          `${entry.selector} • ${entry.date}`,
+          `Stashed ${entry.date}. Opens the stashed working tree, without untracked files.`
+        ));
+      }
+      case 'tag': {
+        const tags = await this.gitService.listTags(repoPath);
+        return tags.map((tag) => new RefSourceTreeItem(
+          { kind, ref: tag.name },
+          tag.sha,
+          tag.name,
+          tag.sha.substring(0, 7),
+          tag.annotation ?? 'Lightweight tag'
+        ));
+      }
+      case 'reflog': {
+        const config = vscode.workspace.getConfiguration('commitview');
+        const entries = await this.gitService.listReflog(repoPath, config.get<number>('maxCommitHistory', 50));
+        return entries.map((entry) => new RefSourceTreeItem(
+          { kind, ref: entry.selector, message: entry.message },
+          entry.sha,
+          entry.message,
+          `${entry.selector} • ${entry.sha.substring(0, 7)}`,
+          `Committed ${entry.date}`
+        ));
+      }
+    }
+  }
+}
+
+export class RefSourceGroupItem extends vscode.TreeItem {
+  constructor(public readonly kind: WorktreeRefKind, title: string, icon: string) {
+    super(title, vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.id = `refSources:${kind}`;
+    this.iconPath = new vscode.ThemeIcon(icon);
+    this.contextValue = 'refSourceGroup';
+  }
+}
+
+export class RefSourceTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly source: WorktreeSource,
+    public readonly sha: string,
+    label: string,
+    description: string,
+    details: string
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+
+    this.id = `refSources:${source.kind}:${source.ref}`;
+    this.description = description;
+    this.tooltip = this.createTooltip(details);
+    this.iconPath = new vscode.ThemeIcon(GROUPS.find((group) => group.kind === source.kind)!.icon);
+    this.contextValue = 'refSource';
+
+    this.command = {
+      command: 'commitview.openRefSource',
+      title: 'Open in New Window',
+      arguments: [this],
+    };
+  }
+
+  private createTooltip(details: string): vscode.MarkdownString {
+    const md = new vscode.MarkdownString('', true);
+    md.appendMarkdown(`**${this.source.ref}**\n\n`);
+    md.appendMarkdown(`$(git-commit) \`${this.sha}\`\n\n`);
+    md.appendText(`${details}\n\n`);
+    md.appendMarkdown(`*Click to open in a new window*`);
+    return md;
+  }
+}
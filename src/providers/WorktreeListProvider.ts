@@ -1,25 +1,44 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import { WorktreeManager, WorktreeInfo } from '../services/WorktreeManager';
+import { WorktreeIssue, WorktreeManager, WorktreeInfo, WorktreeRefKind } from '../services/WorktreeManager';
+import { formatBytes, formatRelativeDate } from '../utils/format';
 
-export class WorktreeListProvider implements vscode.TreeDataProvider<WorktreeTreeItem> {
-  private _onDidChangeTreeData: vscode.EventEmitter<WorktreeTreeItem | undefined | null | void> =
-    new vscode.EventEmitter<WorktreeTreeItem | undefined | null | void>();
-  readonly onDidChangeTreeData: vscode.Event<WorktreeTreeItem | undefined | null | void> =
+const SOURCE_ICONS: Record<WorktreeRefKind, string> = {
+  stash: 'archive',
+  tag: 'tag',
+  reflog: 'history',
+};
+
+// Group headers appear once something is pinned, otherwise the list is flat
+type WorktreeNode = WorktreeGroupItem | WorktreeTreeItem;
+
+export interface WorktreeItemState {
+  size?: number;  // Not measured yet
+  lastOpened: number;
+  isOpen: boolean;
+  issue?: WorktreeIssue;
+}
+
+export class WorktreeListProvider implements vscode.TreeDataProvider<WorktreeNode> {
+  private _onDidChangeTreeData: vscode.EventEmitter<WorktreeNode | undefined | null | void> =
+    new vscode.EventEmitter<WorktreeNode | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<WorktreeNode | undefined | null | void> =
     this._onDidChangeTreeData.event;
 
+  private measuring = false;
+
   constructor(private worktreeManager: WorktreeManager) {}
 
   refresh(): void {
     this._onDidChangeTreeData.fire();
   }
 
-  getTreeItem(element: WorktreeTreeItem): vscode.TreeItem {
+  getTreeItem(element: WorktreeNode): vscode.TreeItem {
     return element;
   }
 
-  async getChildren(element?: WorktreeTreeItem): Promise<WorktreeTreeItem[]> {
-    if (element) {
+  async getChildren(element?: WorktreeNode): Promise<WorktreeNode[]> {
+    if (element instanceof WorktreeTreeItem) {
       return [];
     }
 
@@ -33,19 +52,82 @@ export class WorktreeListProvider implements vscode.TreeDataProvider<WorktreeTre
       }
     }
 
-    return validWorktrees.map((worktree) => new WorktreeTreeItem(worktree));
+    if (element) {
+      return validWorktrees
+        .filter((worktree) => !!worktree.pinned === element.pinned)
+        .map((worktree) => this.createItem(worktree));
+    }
+
+    this.measureSizes(validWorktrees);
+
+    if (!validWorktrees.some((worktree) => worktree.pinned)) {
+      return validWorktrees.map((worktree) => this.createItem(worktree));
+    }
+
+    const groups = [new WorktreeGroupItem(true)];
+    if (validWorktrees.some((worktree) => !worktree.pinned)) {
+      groups.push(new WorktreeGroupItem(false));
+    }
+    return groups;
+  }
+
+  private createItem(worktree: WorktreeInfo): WorktreeTreeItem {
+    return new WorktreeTreeItem(worktree, {
+      size: this.worktreeManager.getCachedWorktreeSize(worktree.path),
+      lastOpened: this.worktreeManager.getLastOpened(worktree),
+      isOpen: this.worktreeManager.isOpenInWindow(worktree.path),
+      issue: this.worktreeManager.getIssue(worktree.path),
+    });
+  }
+
+  /**
+   * Measure sizes in the background and show them once known, as walking large checkouts is slow
+   */
+  private async measureSizes(worktrees: WorktreeInfo[]): Promise<void> {
+    const unmeasured = worktrees.filter((w) => this.worktreeManager.getCachedWorktreeSize(w.path) === undefined);
+    if (this.measuring || unmeasured.length === 0) {
+      return;
+    }
+
+    this.measuring = true;
+    try {
+      for (const worktree of unmeasured) {
+        await this.worktreeManager.getWorktreeSize(worktree.path);
+      }
+    } finally {
+      this.measuring = false;
+    }
+    this.refresh();
+  }
+}
+
+export class WorktreeGroupItem extends vscode.TreeItem {
+  constructor(public readonly pinned: boolean) {
+    super(pinned ? 'Pinned' : 'Other Worktrees', vscode.TreeItemCollapsibleState.Expanded);
+
+    this.id = pinned ? 'group:pinned' : 'group:other';
+    this.iconPath = new vscode.ThemeIcon(pinned ? 'pinned' : 'window');
+    this.tooltip = pinned
+      ? 'Kept across window closes, reloads and cleanup until unpinned'
+      : 'Cleaned up as set by the autoCleanupOnClose and worktreeExpiryHours settings';
+    this.contextValue = 'worktreeGroup';
   }
 }
 
 export class WorktreeTreeItem extends vscode.TreeItem {
-  constructor(public readonly worktree: WorktreeInfo) {
+  constructor(
+    public readonly worktree: WorktreeInfo,
+    private readonly state?: WorktreeItemState
+  ) {
     super(worktree.commitMessage, vscode.TreeItemCollapsibleState.None);
 
     this.id = worktree.id;
-    this.description = worktree.commitSha.substring(0, 7);
+    this.description = this.createDescription();
     this.tooltip = this.createTooltip();
-    this.contextValue = 'worktree';
-    this.iconPath = new vscode.ThemeIcon('window', new vscode.ThemeColor('charts.green'));
+    this.contextValue = worktree.pinned ? 'pinnedWorktree' : 'worktree';
+    this.iconPath = state?.issue
+      ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'))
+      : new vscode.ThemeIcon(this.getIconId(), new vscode.ThemeColor('charts.green'));
 
     // Click to switch to this worktree
     this.command = {
@@ -55,11 +137,79 @@ export class WorktreeTreeItem extends vscode.TreeItem {
     };
   }
 
+  private getIconId(): string {
+    if (this.worktree.branch) {
+      return 'git-branch';
+    }
+    return this.worktree.snapshot ? 'device-camera' : 'window';
+  }
+
+  private createDescription(): string {
+    const details = [this.describeCommit()];
+    if (this.state?.size !== undefined) {
+      details.push(formatBytes(this.state.size));
+    }
+    if (this.state) {
+      details.push(this.state.isOpen ? 'open' : `opened ${formatRelativeDate(new Date(this.state.lastOpened))}`);
+    }
+    return details.join(' • ');
+  }
+
+  private describeCommit(): string {
+    const shortSha = this.worktree.commitSha.substring(0, 7);
+    if (this.worktree.branch) {
+      return `${this.worktree.branch} • from ${shortSha}`;
+    }
+    if (this.worktree.snapshot) {
+      return `Snapshot ${shortSha}`;
+    }
+    if (this.worktree.carriedChanges) {
+      return `${shortSha} + uncommitted changes`;
+    }
+    if (this.worktree.source) {
+      return `${shortSha} • ${this.worktree.source.message ?? this.worktree.source.ref}`;
+    }
+    return shortSha;
+  }
+
   private createTooltip(): vscode.MarkdownString {
     const md = new vscode.MarkdownString();
     md.appendMarkdown(`**${this.worktree.commitMessage}**\n\n`);
     md.appendMarkdown(`$(git-commit) \`${this.worktree.commitSha.substring(0, 7)}\`\n\n`);
     md.appendMarkdown(`$(folder) ${this.worktree.path}\n\n`);
+    if (this.state?.issue === 'unregistered') {
+      md.appendMarkdown(`$(warning) Git no longer lists this worktree. Run \`git worktree repair\` in the original repository, or close and clean it up.\n\n`);
+    }
+    if (this.state?.issue === 'headMoved') {
+      md.appendMarkdown(`$(warning) Git has another commit checked out here than the one shown\n\n`);
+    }
+    if (this.state?.size !== undefined) {
+      md.appendMarkdown(`$(database) ${formatBytes(this.state.size)} on disk, not counting linked files and folders\n\n`);
+    }
+    if (this.state) {
+      md.appendMarkdown(this.state.isOpen
+        ? `$(window) Open in a window\n\n`
+        : `$(clock) Last opened ${formatRelativeDate(new Date(this.state.lastOpened))}\n\n`);
+    }
+    if (this.worktree.carriedChanges) {
+      md.appendMarkdown(`$(diff) With the uncommitted changes of ${this.worktree.originalRepoPath}\n\n`);
+    }
+    if (this.worktree.snapshot) {
+      md.appendMarkdown(`$(device-camera) Frozen working tree of ${this.worktree.originalRepoPath}\n\n`);
+    }
+    if (this.worktree.branch) {
+      md.appendMarkdown(`$(git-branch) On branch \`${this.worktree.branch}\`, kept until cleaned up\n\n`);
+    }
+    if (this.worktree.pinned) {
+      md.appendMarkdown(`$(pinned) Pinned, reopens with its last open files and terminals\n\n`);
+    }
+    if (this.worktree.source?.message) {
+      // Its ref may name another entry by now, e.g. stash@{0} after the next stash
+      md.appendMarkdown(`$(${SOURCE_ICONS[this.worktree.source.kind]}) Opened from ${this.worktree.source.kind} entry `);
+      md.appendText(`"${this.worktree.source.message}"\n\n`);
+    } else if (this.worktree.source) {
+      md.appendMarkdown(`$(${SOURCE_ICONS[this.worktree.source.kind]}) Opened from ${this.worktree.source.kind} \`${this.worktree.source.ref}\`\n\n`);
+    }
     md.appendMarkdown(`*Click to open this worktree*`);
     return md;
   }
@@ -1,4 +1,11 @@
-import simpleGit from 'simple-git';
+import simpleGit, { pathspec } from 'simple-git';
+import { GitRefType } from './GitService';
+import { formatRelativeDate } from '../utils/format';
+
+export interface CommitRef {
+  name: string;
+  type: GitRefType | 'head';
+}
 
 export interface Commit {
   sha: string;
@@ -9,124 +16,292 @@ export interface Commit {
   authorEmail: string;
   date: Date;
   relativeDate: string;
+  refs: CommitRef[];
+  parents: string[];  // Parent SHAs, first parent first
+}
+
+export interface CommitLogOptions {
+  skip?: number;
+  ref?: string;  // Branch, tag or remote ref to log from (defaults to HEAD), or ALL_REFS
+  firstParent?: boolean;  // Follow only the first parent of merges, hiding merged-in branch commits
+  topoOrder?: boolean;  // List children before their parents even when commit dates are skewed
+}
+
+// Log every branch, remote and tag instead of a single ref
+export const ALL_REFS = '--all';
+
+export interface FileHistoryEntry {
+  commit: Commit;
+  path: string;  // Path of the file in this commit (differs from today's path across renames)
+}
+
+export interface CommitSearchQuery {
+  text: string;       // Matched against commit messages
+  authors: string[];  // Any of these authors
+  since?: string;
+  until?: string;
+  paths: string[];
+  pickaxe?: { mode: '-S' | '-G'; pattern: string };
+}
+
+const SEARCH_TOKEN = /(-[SG])\s*("[^"]*"|\S+)|(\w+):("[^"]*"|\S+)|("[^"]*"|\S+)/g;
+
+/**
+ * Parse a search such as `author:alice since:"2 weeks ago" path:src/ -SparseConfig login bug`.
+ * Unknown `key:value` tokens are treated as message text so "fix: typo" still searches messages.
+ */
+export function parseCommitSearch(input: string): CommitSearchQuery {
+  const query: CommitSearchQuery = { text: '', authors: [], paths: [] };
+  const text: string[] = [];
+
+  for (const match of input.matchAll(SEARCH_TOKEN)) {
+    const [, pickaxeMode, pickaxePattern, key, value, word] = match;
+
+    if (pickaxeMode) {
+      query.pickaxe = { mode: pickaxeMode as '-S' | '-G', pattern: unquote(pickaxePattern) };
+      continue;
+    }
+
+    switch (key?.toLowerCase()) {
+      case 'author':
+        query.authors.push(unquote(value));
+        break;
+      case 'since':
+        query.since = unquote(value);
+        break;
+      case 'until':
+        query.until = unquote(value);
+        break;
+      case 'path':
+        query.paths.push(unquote(value));
+        break;
+      default:
+        text.push(key ? `${key}:${unquote(value)}` : unquote(word));
+    }
+  }
+
+  query.text = text.join(' ');
+  return query;
 }
 
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+const LOG_FORMAT = {
+  hash: '%H',
+  message: '%B',
+  author_name: '%an',
+  author_email: '%ae',
+  date: '%aI',
+  refs: '%D',
+  parents: '%P',
+};
+
+// Full ref names in %D let us tell local branches from remote-tracking ones
+const DECORATE_OPTIONS = { '--decorate': 'full' };
+
+const FIRST_PARENT_OPTIONS = { '--first-parent': null };
+
+const TOPO_ORDER_OPTIONS = { '--topo-order': null };
+
+type LogEntry = { [K in keyof typeof LOG_FORMAT]: string };
+
 export class CommitService {
-  async getRecentCommits(repoPath: string, limit: number = 100): Promise<Commit[]> {
+  async getRecentCommits(
+    repoPath: string,
+    limit: number = 100,
+    options: CommitLogOptions = {}
+  ): Promise<Commit[]> {
     const git = simpleGit(repoPath);
+    const { skip = 0, ref, firstParent, topoOrder } = options;
 
-    const log = await git.log({
+    const log = await git.log<LogEntry>({
       maxCount: limit,
-      format: {
-        hash: '%H',
-        message: '%B',
-        author_name: '%an',
-        author_email: '%ae',
-        date: '%aI',
-      },
+      ...(skip > 0 ? { '--skip': skip } : {}),
+      ...(firstParent ? FIRST_PARENT_OPTIONS : {}),
+      ...(topoOrder ? TOPO_ORDER_OPTIONS : {}),
+      ...DECORATE_OPTIONS,
+      ...(ref ? { [ref]: null } : {}),
+      format: LOG_FORMAT,
     });
 
-    return log.all.map((entry) => ({
-      sha: entry.hash,
-      shortSha: entry.hash.substring(0, 7),
-      message: entry.message.trim(),
-      subject: entry.message.split('\n')[0].trim(),
-      author: entry.author_name,
-      authorEmail: entry.author_email,
-      date: new Date(entry.date),
-      relativeDate: this.getRelativeDate(new Date(entry.date)),
-    }));
+    return log.all.map((entry) => this.toCommit(entry));
+  }
+
+  /**
+   * Commits reachable from `toSha` but not from `fromSha`, newest first
+   */
+  async getCommitsBetween(
+    repoPath: string,
+    fromSha: string,
+    toSha: string,
+    options: Pick<CommitLogOptions, 'firstParent'> = {}
+  ): Promise<Commit[]> {
+    const git = simpleGit(repoPath);
+
+    const log = await git.log<LogEntry>({
+      from: fromSha,
+      to: toSha,
+      symmetric: false,
+      ...(options.firstParent ? FIRST_PARENT_OPTIONS : {}),
+      ...DECORATE_OPTIONS,
+      format: LOG_FORMAT,
+    });
+
+    return log.all.map((entry) => this.toCommit(entry));
   }
 
-  async searchCommits(repoPath: string, query: string, limit: number = 50): Promise<Commit[]> {
+  async searchCommits(
+    repoPath: string,
+    query: string,
+    limit: number = 50,
+    options: CommitLogOptions = {}
+  ): Promise<Commit[]> {
     const git = simpleGit(repoPath);
+    const search = parseCommitSearch(query);
 
-    const log = await git.log({
+    // Flags are passed as option keys; simple-git appends keys with a null value verbatim
+    const flags: Record<string, null> = {};
+    for (const author of search.authors) {
+      flags[`--author=${author}`] = null;
+    }
+    if (search.text) {
+      flags[`--grep=${search.text}`] = null;
+      flags['--regexp-ignore-case'] = null;
+    }
+    if (search.since) {
+      flags[`--since=${search.since}`] = null;
+    }
+    if (search.until) {
+      flags[`--until=${search.until}`] = null;
+    }
+    if (search.pickaxe) {
+      flags[`${search.pickaxe.mode}${search.pickaxe.pattern}`] = null;
+    }
+
+    const log = await git.log<LogEntry>({
+      maxCount: limit,
+      ...flags,
+      ...(options.firstParent ? FIRST_PARENT_OPTIONS : {}),
+      ...DECORATE_OPTIONS,
+      ...(options.ref ? { [options.ref]: null } : {}),
+      ...(search.paths.length > 0 ? { paths: pathspec(...search.paths) } : {}),
+      format: LOG_FORMAT,
+    });
+
+    return log.all.map((entry) => this.toCommit(entry));
+  }
+
+  /**
+   * Commits that touched a file, following it across renames
+   */
+  async getFileHistory(repoPath: string, filePath: string, limit: number = 100): Promise<FileHistoryEntry[]> {
+    const git = simpleGit(repoPath);
+
+    const log = await git.log<LogEntry>({
       maxCount: limit,
-      '--grep': query,
-      format: {
-        hash: '%H',
-        message: '%B',
-        author_name: '%an',
-        author_email: '%ae',
-        date: '%aI',
-      },
+      file: filePath,
+      '--name-status': null,
+      ...DECORATE_OPTIONS,
+      format: LOG_FORMAT,
     });
 
     return log.all.map((entry) => ({
-      sha: entry.hash,
-      shortSha: entry.hash.substring(0, 7),
-      message: entry.message.trim(),
-      subject: entry.message.split('\n')[0].trim(),
-      author: entry.author_name,
-      authorEmail: entry.author_email,
-      date: new Date(entry.date),
-      relativeDate: this.getRelativeDate(new Date(entry.date)),
+      commit: this.toCommit(entry),
+      path: entry.diff?.files[0]?.file ?? filePath,
     }));
   }
 
+  /**
+   * A direct child of a commit, preferring one on the way to HEAD over other branches
+   */
+  async getChildCommit(repoPath: string, sha: string): Promise<Commit | null> {
+    const git = simpleGit(repoPath);
+
+    // Reverse topological order lists parents before children, so the first is a direct child
+    for (const tips of [['HEAD'], ['--all']]) {
+      const output = await git.raw(['rev-list', '--ancestry-path', '--topo-order', '--reverse', ...tips, `^${sha}`]);
+      const childSha = output.split('\n')[0].trim();
+      if (childSha) {
+        return this.getCommit(repoPath, childSha);
+      }
+    }
+
+    return null;
+  }
+
   async getCommit(repoPath: string, sha: string): Promise<Commit | null> {
     const git = simpleGit(repoPath);
 
     try {
-      const log = await git.log({
+      const log = await git.log<LogEntry>({
         maxCount: 1,
-        from: sha,
-        to: sha,
-        format: {
-          hash: '%H',
-          message: '%B',
-          author_name: '%an',
-          author_email: '%ae',
-          date: '%aI',
-        },
+        [sha]: null,
+        ...DECORATE_OPTIONS,
+        format: LOG_FORMAT,
       });
 
       if (log.all.length === 0) {
         return null;
       }
 
-      const entry = log.all[0];
-      return {
-        sha: entry.hash,
-        shortSha: entry.hash.substring(0, 7),
-        message: entry.message.trim(),
-        subject: entry.message.split('\n')[0].trim(),
-        author: entry.author_name,
-        authorEmail: entry.author_email,
-        date: new Date(entry.date),
-        relativeDate: this.getRelativeDate(new Date(entry.date)),
-      };
+      return this.toCommit(log.all[0]);
     } catch {
       return null;
     }
   }
 
-  private getRelativeDate(date: Date): string {
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffSeconds = Math.floor(diffMs / 1000);
-    const diffMinutes = Math.floor(diffSeconds / 60);
-    const diffHours = Math.floor(diffMinutes / 60);
-    const diffDays = Math.floor(diffHours / 24);
-    const diffWeeks = Math.floor(diffDays / 7);
-    const diffMonths = Math.floor(diffDays / 30);
-    const diffYears = Math.floor(diffDays / 365);
-
-    if (diffSeconds < 60) {
-      return 'just now';
-    } else if (diffMinutes < 60) {
-      return `${diffMinutes} minute${diffMinutes === 1 ? '' : 's'} ago`;
-    } else if (diffHours < 24) {
-      return `${diffHours} hour${diffHours === 1 ? '' : 's'} ago`;
-    } else if (diffDays < 7) {
-      return `${diffDays} day${diffDays === 1 ? '' : 's'} ago`;
-    } else if (diffWeeks < 4) {
-      return `${diffWeeks} week${diffWeeks === 1 ? '' : 's'} ago`;
-    } else if (diffMonths < 12) {
-      return `${diffMonths} month${diffMonths === 1 ? '' : 's'} ago`;
-    } else {
-      return `${diffYears} year${diffYears === 1 ? '' : 's'} ago`;
+  private toCommit(entry: LogEntry): Commit {
+    return {
+      sha: entry.hash,
+      shortSha: entry.hash.substring(0, 7),
+      message: entry.message.trim(),
+      subject: entry.message.split('\n')[0].trim(),
+      author: entry.author_name,
+      authorEmail: entry.author_email,
+      date: new Date(entry.date),
+      relativeDate: formatRelativeDate(new Date(entry.date)),
+      refs: this.parseRefs(entry.refs),
+      parents: entry.parents ? entry.parents.split(' ') : [],
+    };
+  }
+
+  /**
+   * Parse a `%D` decoration with full ref names,
+   * e.g. "HEAD -> refs/heads/main, tag: refs/tags/v1.0, refs/remotes/origin/main"
+   */
+  private parseRefs(decoration: string): CommitRef[] {
+    const refs: CommitRef[] = [];
+
+    for (const part of decoration.split(', ')) {
+      let name = part.trim();
+      if (!name) {
+        continue;
+      }
+
+      if (name === 'HEAD' || name.startsWith('HEAD -> ')) {
+        refs.push({ name: 'HEAD', type: 'head' });
+        name = name.substring('HEAD -> '.length);
+        if (!name) {
+          continue;
+        }
+      }
+
+      name = name.replace(/^tag: /, '');
+
+      if (name.startsWith('refs/heads/')) {
+        refs.push({ name: name.substring('refs/heads/'.length), type: 'branch' });
+      } else if (name.startsWith('refs/remotes/')) {
+        // Skip symbolic remote HEADs such as origin/HEAD
+        if (!name.endsWith('/HEAD')) {
+          refs.push({ name: name.substring('refs/remotes/'.length), type: 'remote' });
+        }
+      } else if (name.startsWith('refs/tags/')) {
+        refs.push({ name: name.substring('refs/tags/'.length), type: 'tag' });
+      }
     }
+
+    return refs;
   }
 }
@@ -1,11 +1,27 @@
 import simpleGit from 'simple-git';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type DiffFileStatus =
+  | 'added'
+  | 'modified'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'typeChanged'
+  | 'unmerged'
+  | 'unknown';
 
 export interface DiffFile {
   path: string;
-  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+  status: DiffFileStatus;
   additions: number;
   deletions: number;
   oldPath?: string;
+  binary: boolean;
+  similarity?: number;  // Rename/copy score (0-100)
+  oldMode?: string;
+  newMode?: string;
 }
 
 export interface DiffStats {
@@ -14,6 +30,45 @@ export interface DiffStats {
   deletions: number;
 }
 
+interface RawDiffEntry {
+  status: DiffFileStatus;
+  path: string;
+  oldPath?: string;
+  similarity?: number;
+  oldMode: string;
+  newMode: string;
+}
+
+interface NumstatEntry {
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+const STATUS_CODES: Record<string, DiffFileStatus> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'typeChanged',
+  U: 'unmerged',
+};
+
+// Modes git reports for the missing side of an added or deleted file
+const NULL_MODE = '000000';
+
+// Pseudo-ref for the original repository's uncommitted working tree.
+// ':' is not allowed in ref names, so this never collides with a real ref.
+export const WORKING_TREE_REF = ':working-tree';
+
+// Pseudo-ref for every parent of a merge at once, diffed as git's combined diff.
+// Only valid as the base of a range whose target is a merge commit.
+export const COMBINED_PARENTS_REF = ':parents';
+
+// Git's well-known empty tree, used as the base when diffing a root commit
+export const EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
 export class DiffService {
   async getChangedFiles(
     repoPath: string,
@@ -22,39 +77,163 @@ export class DiffService {
   ): Promise<DiffFile[]> {
     const git = simpleGit(repoPath);
 
-    const diffSummary = await git.diffSummary([fromSha, toSha]);
+    // --raw carries the exact status letter and file modes, --numstat the line counts.
+    // Both are NUL-delimited so paths with spaces, arrows or braces are returned verbatim.
+    // A combined diff lists only files that differ from every parent; its numstat
+    // counts are against the first parent, which is the most git reports.
+    const args =
+      fromSha === COMBINED_PARENTS_REF
+        ? ['diff-tree', '-r', '-c', '--no-commit-id', toSha]
+        : ['diff', '-M', '-C', ...this.getRangeArgs(fromSha, toSha)];
+    const [rawOutput, numstatOutput] = await Promise.all([
+      git.raw([...args, '--raw', '-z']),
+      git.raw([...args, '--numstat', '-z']),
+    ]);
+
+    const numstats = this.parseNumstat(numstatOutput);
 
-    return diffSummary.files.map((file) => {
-      let status: DiffFile['status'] = 'modified';
+    const files: DiffFile[] = this.parseRaw(rawOutput).map((entry) => {
+      const stats = numstats.get(entry.path) ?? { additions: 0, deletions: 0, binary: false };
 
-      if ('insertions' in file && 'deletions' in file) {
-        const f = file as { file: string; insertions: number; deletions: number; changes: number };
-        if (f.insertions > 0 && f.deletions === 0 && f.changes === f.insertions) {
-          status = 'added';
-        } else if (f.deletions > 0 && f.insertions === 0 && f.changes === f.deletions) {
-          status = 'deleted';
-        }
+      return {
+        path: entry.path,
+        status: entry.status,
+        additions: stats.additions,
+        deletions: stats.deletions,
+        oldPath: entry.oldPath,
+        binary: stats.binary,
+        similarity: entry.similarity,
+        oldMode: entry.oldMode === NULL_MODE ? undefined : entry.oldMode,
+        newMode: entry.newMode === NULL_MODE ? undefined : entry.newMode,
+      };
+    });
+
+    // `git diff` only compares tracked files
+    if (fromSha === WORKING_TREE_REF || toSha === WORKING_TREE_REF) {
+      files.push(...(await this.getUntrackedFiles(repoPath, fromSha === WORKING_TREE_REF)));
+    }
+
+    return files;
+  }
+
+  /**
+   * Untracked files that are not ignored, as added to the working tree,
+   * or as deleted when the working tree is the base of the range
+   */
+  private async getUntrackedFiles(repoPath: string, workingTreeIsBase: boolean): Promise<DiffFile[]> {
+    const output = await simpleGit(repoPath).raw(['ls-files', '--others', '--exclude-standard', '-z']);
+
+    return Promise.all(
+      output.split('\0').filter(Boolean).map(async (filePath) => {
+        const { lines, binary } = await countLines(path.join(repoPath, filePath));
+        return {
+          path: filePath,
+          status: workingTreeIsBase ? 'deleted' : 'added',
+          additions: workingTreeIsBase ? 0 : lines,
+          deletions: workingTreeIsBase ? lines : 0,
+          binary,
+        };
+      })
+    );
+  }
+
+  /**
+   * Translate a from/to pair into `git diff` arguments, where either side may be the working tree
+   */
+  private getRangeArgs(fromRef: string, toRef: string): string[] {
+    if (toRef === WORKING_TREE_REF) {
+      return [fromRef];
+    }
+    if (fromRef === WORKING_TREE_REF) {
+      return ['-R', toRef];
+    }
+    return [fromRef, toRef];
+  }
+
+  /**
+   * Parse `git diff --raw -z` output:
+   * `:<old mode> <new mode> <old sha> <new sha> <status>\0<path>\0[<new path>\0]`
+   * Combined diffs repeat the colon, mode, sha and status letter once per parent.
+   */
+  private parseRaw(output: string): RawDiffEntry[] {
+    const tokens = output.split('\0');
+    const entries: RawDiffEntry[] = [];
+
+    let i = 0;
+    while (i < tokens.length) {
+      const header = tokens[i++];
+      if (!header.startsWith(':')) {
+        continue;
       }
 
-      // Check for renames (file path contains ' => ')
-      let filePath = file.file;
-      let oldPath: string | undefined;
+      const parentCount = header.length - header.replace(/^:+/, '').length;
+      const fields = header.substring(parentCount).split(' ');
+      const oldMode = fields[0];
+      const newMode = fields[parentCount];
+      const statusField = fields[parentCount * 2 + 2];
 
-      if (filePath.includes(' => ')) {
-        const parts = filePath.split(' => ');
-        oldPath = parts[0].replace('{', '').replace('}', '');
-        filePath = parts[1].replace('{', '').replace('}', '');
-        status = 'renamed';
+      let code = statusField.charAt(0);
+      let score = statusField.substring(1);
+      if (parentCount > 1) {
+        // One letter per parent and no score; mixed letters mean the file was merged
+        code = new Set(statusField).size === 1 ? code : 'M';
+        score = '';
       }
+      const status = STATUS_CODES[code] ?? 'unknown';
 
-      return {
-        path: filePath,
-        status,
-        additions: 'insertions' in file ? (file as { insertions: number }).insertions : 0,
-        deletions: 'deletions' in file ? (file as { deletions: number }).deletions : 0,
-        oldPath,
-      };
-    });
+      if (code === 'R' || code === 'C') {
+        const oldPath = tokens[i++];
+        const newPath = tokens[i++];
+        entries.push({
+          status,
+          path: newPath,
+          oldPath,
+          similarity: score ? parseInt(score, 10) : undefined,
+          oldMode,
+          newMode,
+        });
+      } else {
+        entries.push({ status, path: tokens[i++], oldMode, newMode });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Parse `git diff --numstat -z` output, keyed by the new path.
+   * Renames and copies are `<add>\t<del>\t\0<old path>\0<new path>\0`,
+   * binary files report `-` for both counts.
+   */
+  private parseNumstat(output: string): Map<string, NumstatEntry> {
+    const tokens = output.split('\0');
+    const stats = new Map<string, NumstatEntry>();
+
+    let i = 0;
+    while (i < tokens.length) {
+      const record = tokens[i++];
+      if (!record) {
+        continue;
+      }
+
+      const [added, deleted, inlinePath] = record.split('\t');
+      let filePath = inlinePath;
+
+      if (!filePath) {
+        // Rename or copy: old path, then new path follow as separate tokens
+        i++;
+        filePath = tokens[i++];
+      }
+
+      const binary = added === '-' && deleted === '-';
+      stats.set(filePath, {
+        additions: binary ? 0 : parseInt(added, 10) || 0,
+        deletions: binary ? 0 : parseInt(deleted, 10) || 0,
+        binary,
+      });
+    }
+
+    return stats;
   }
 
   async getDiffStats(
@@ -64,7 +243,7 @@ export class DiffService {
   ): Promise<DiffStats> {
     const git = simpleGit(repoPath);
 
-    const diffSummary = await git.diffSummary([fromSha, toSha]);
+    const diffSummary = await git.diffSummary(this.getRangeArgs(fromSha, toSha));
 
     return {
       filesChanged: diffSummary.changed,
@@ -81,7 +260,53 @@ export class DiffService {
   ): Promise<string> {
     const git = simpleGit(repoPath);
 
-    const diff = await git.diff([fromSha, toSha, '--', filePath]);
+    if (fromSha === COMBINED_PARENTS_REF) {
+      return git.raw(['show', '--cc', '--format=', toSha, '--', filePath]);
+    }
+
+    const diff = await git.diff([...this.getRangeArgs(fromSha, toSha), '--', filePath]);
     return diff;
   }
+
+  async getFileContent(
+    repoPath: string,
+    ref: string,
+    filePath: string
+  ): Promise<string> {
+    const git = simpleGit(repoPath);
+
+    try {
+      return await git.show([`${ref}:${filePath}`]);
+    } catch {
+      // File does not exist at this revision (added or deleted side of a diff)
+      return '';
+    }
+  }
+}
+
+/**
+ * Count lines the way `git diff --numstat` would for a new file. Like git, a NUL byte
+ * in the first 8000 bytes makes the file binary, which has no line count.
+ */
+async function countLines(filePath: string): Promise<{ lines: number; binary: boolean }> {
+  let content: Buffer;
+  try {
+    content = await fs.promises.readFile(filePath);
+  } catch {
+    // Gone since it was listed, or a link to a directory
+    return { lines: 0, binary: false };
+  }
+
+  if (content.subarray(0, 8000).includes(0)) {
+    return { lines: 0, binary: true };
+  }
+
+  let lines = 0;
+  for (let i = content.indexOf(10); i !== -1; i = content.indexOf(10, i + 1)) {
+    lines++;
+  }
+  if (content.length > 0 && content[content.length - 1] !== 10) {
+    lines++;  // Last line without a newline
+  }
+  return { lines, binary: false };
 }
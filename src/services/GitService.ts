@@ -1,14 +1,105 @@
 import simpleGit, { SimpleGit, SimpleGitOptions } from 'simple-git';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { CommitViewError, ErrorCode } from '../utils/errors';
 
+export type GitRefType = 'branch' | 'remote' | 'tag';
+
+export interface GitRef {
+  name: string;      // Short name, e.g. "main", "origin/release-2.3", "v1.0.0"
+  fullName: string;  // e.g. "refs/heads/main"
+  type: GitRefType;
+  sha: string;       // Commit the ref points at (tags are peeled)
+}
+
+export interface GitTag {
+  name: string;
+  sha: string;          // Tagged commit, peeled for annotated tags
+  annotation?: string;  // Message of an annotated tag
+}
+
+export interface GitReflogEntry {
+  selector: string;  // e.g. "stash@{0}", "HEAD@{3}"
+  sha: string;
+  message: string;   // e.g. "WIP on main: 1a2b3c4 Fix parser" or "reset: moving to HEAD~2"
+  date: string;      // Relative commit date
+}
+
+export interface LineBlame {
+  sha: string;
+  originalPath: string;  // Path of the file in the blamed commit
+  originalLine: number;  // 1-based line number in the blamed commit
+  author: string;
+  summary: string;
+  uncommitted: boolean;
+}
+
+export interface BranchStatus {
+  unpushed: number;  // Commits on no remote-tracking branch
+  unmerged: number;  // Commits on no other local branch
+}
+
+export interface MergedFile {
+  path: string;
+  mode: string;            // e.g. "100644", "100755", "120000" for symlinks
+  content: Buffer | null;  // Null when the patch deletes the file
+}
+
+export interface ThreeWayMergeResult {
+  files: MergedFile[];  // Empty if anything conflicted
+  conflicts: string[];
+}
+
+export interface GitTreeEntry {
+  path: string;  // Repository-relative, forward slashes
+  type: 'blob' | 'tree' | 'commit';  // 'commit' is a submodule
+  mode: string;  // e.g. "100644", "100755", "120000" for symlinks
+  size: number;  // Bytes for blobs, 0 otherwise
+}
+
+export type BisectVerdict = 'good' | 'bad' | 'skip';
+
+export interface BisectStatus {
+  currentSha: string;     // Commit checked out for testing
+  remaining?: number;     // Revisions left to test while still bisecting
+  steps?: number;         // Roughly how many more verdicts are needed
+  firstBadSha?: string;   // Set once the first bad commit is found
+  candidates?: string[];  // Set when only skipped commits are left, any of which may be first bad
+}
+
+export interface BisectLogEntry {
+  kind: BisectVerdict | 'firstBad' | 'possibleFirstBad';
+  sha: string;
+  subject: string;
+}
+
+export interface GitWorktree {
+  path: string;
+  sha: string;
+  branch: string | null;  // Full ref, e.g. "refs/heads/main"; null when detached
+  locked?: string;        // Lock reason, empty when locked without one
+  prunable?: boolean;     // Its directory is gone, so `git worktree prune` would drop it
+}
+
+export interface RejectedFile {
+  path: string;
+  hunks: number[];  // 1-based numbers of the hunks written to `<path>.rej`
+  reason?: string;  // Set when no hunk could be tried, e.g. the file does not exist at this commit
+}
+
+const REFLOG_FORMAT = '%gd%x1f%H%x1f%gs%x1f%cr';
+
+const BISECT_LOG_ENTRY = /^# (good|bad|skip|first bad commit|possible first bad commit): \[([0-9a-f]+)\] ?(.*)$/;
+
 export class GitService {
-  private getGit(cwd: string): SimpleGit {
+  private getGit(cwd: string, abort?: AbortSignal): SimpleGit {
     const options: Partial<SimpleGitOptions> = {
       baseDir: cwd,
       binary: 'git',
       maxConcurrentProcesses: 6,
       trimmed: true,
+      ...(abort ? { abort } : {}),
     };
     return simpleGit(options);
   }
@@ -61,6 +152,174 @@ export class GitService {
     }
   }
 
+  async resolveCommit(repoPath: string, ref: string): Promise<string> {
+    const git = this.getGit(repoPath);
+    const sha = await git.revparse(['--verify', `${ref}^{commit}`]);
+    return sha.trim();
+  }
+
+  async getCommitSubject(repoPath: string, sha: string): Promise<string> {
+    const git = this.getGit(repoPath);
+    return git.raw(['log', '-1', '--format=%s', sha]);
+  }
+
+  async isAncestor(repoPath: string, ancestorSha: string, descendantSha: string): Promise<boolean> {
+    try {
+      // simple-git does not reject on a silent non-zero exit, so `--is-ancestor` can't be used here
+      const git = this.getGit(repoPath);
+      const [ancestor, mergeBase] = await Promise.all([
+        git.revparse(['--verify', `${ancestorSha}^{commit}`]),
+        git.raw(['merge-base', ancestorSha, descendantSha]),
+      ]);
+      return ancestor.trim() === mergeBase.trim();
+    } catch {
+      return false;
+    }
+  }
+
+  async listRefs(repoPath: string): Promise<GitRef[]> {
+    const git = this.getGit(repoPath);
+    const output = await git.raw([
+      'for-each-ref',
+      '--format=%(refname)%09%(refname:short)%09%(objectname)%09%(*objectname)',
+      'refs/heads',
+      'refs/remotes',
+      'refs/tags',
+    ]);
+
+    const refs: GitRef[] = [];
+
+    for (const line of output.split('\n')) {
+      if (!line) {
+        continue;
+      }
+
+      const [fullName, name, objectSha, peeledSha] = line.split('\t');
+
+      // Skip symbolic remote HEADs such as origin/HEAD
+      if (fullName.startsWith('refs/remotes/') && fullName.endsWith('/HEAD')) {
+        continue;
+      }
+
+      let type: GitRefType;
+      if (fullName.startsWith('refs/heads/')) {
+        type = 'branch';
+      } else if (fullName.startsWith('refs/remotes/')) {
+        type = 'remote';
+      } else {
+        type = 'tag';
+      }
+
+      refs.push({ name, fullName, type, sha: peeledSha || objectSha });
+    }
+
+    return refs;
+  }
+
+  /**
+   * Tags, newest first, with the message of annotated tags
+   */
+  async listTags(repoPath: string): Promise<GitTag[]> {
+    const git = this.getGit(repoPath);
+    // Records end with \x1e and fields with \x1f, since tag messages span lines
+    const output = await git.raw([
+      'for-each-ref',
+      '--sort=-creatordate',
+      '--format=%(refname:short)%1f%(objectname)%1f%(*objectname)%1f%(objecttype)%1f%(contents:subject)%1f%(contents:body)%1e',
+      'refs/tags',
+    ]);
+
+    const tags: GitTag[] = [];
+
+    for (const record of output.split('\x1e')) {
+      const [name, objectSha, peeledSha, objectType, subject, body] = record.replace(/^\n/, '').split('\x1f');
+      if (!name || !objectSha) {
+        continue;
+      }
+
+      tags.push({
+        name,
+        sha: peeledSha || objectSha,
+        ...(objectType === 'tag' ? { annotation: [subject, body?.trim()].filter(Boolean).join('\n\n') } : {}),
+      });
+    }
+
+    return tags;
+  }
+
+  async listStashes(repoPath: string): Promise<GitReflogEntry[]> {
+    const git = this.getGit(repoPath);
+    const output = await git.raw(['stash', 'list', `--format=${REFLOG_FORMAT}`]);
+    return parseReflog(output);
+  }
+
+  /**
+   * Where HEAD has been, newest first. Includes commits no branch reaches any more, e.g. after a reset.
+   */
+  async listReflog(repoPath: string, limit: number): Promise<GitReflogEntry[]> {
+    const git = this.getGit(repoPath);
+    const output = await git.raw(['reflog', 'show', `--format=${REFLOG_FORMAT}`, '-n', String(limit), 'HEAD']);
+    return parseReflog(output);
+  }
+
+  /**
+   * Find the commit that last changed a line, following the line across renames and moves
+   */
+  async blameLine(repoPath: string, filePath: string, line: number): Promise<LineBlame> {
+    const git = this.getGit(repoPath);
+    const output = await git.raw(['blame', '--porcelain', '-L', `${line},${line}`, '--', filePath]);
+
+    const lines = output.split('\n');
+    const [sha, originalLine] = lines[0].split(' ');
+    const header = (key: string): string | undefined =>
+      lines.find((l) => l.startsWith(`${key} `))?.substring(key.length + 1);
+
+    return {
+      sha,
+      originalPath: header('filename') ?? filePath,
+      originalLine: parseInt(originalLine, 10) || line,
+      author: header('author') ?? '',
+      summary: header('summary') ?? '',
+      uncommitted: /^0+$/.test(sha),
+    };
+  }
+
+  /**
+   * Every file and directory in a commit's tree, without checking anything out
+   */
+  async listTree(repoPath: string, commitSha: string): Promise<GitTreeEntry[]> {
+    const git = this.getGit(repoPath);
+    const output = await git.raw(['ls-tree', '-r', '-t', '-l', '-z', '--full-tree', commitSha]);
+
+    const entries: GitTreeEntry[] = [];
+
+    // Each record is `<mode> <type> <object> <size>\t<path>`, NUL-terminated
+    for (const record of output.split('\0')) {
+      const tab = record.indexOf('\t');
+      if (tab === -1) {
+        continue;
+      }
+
+      const [mode, type, , size] = record.substring(0, tab).split(/ +/);
+      entries.push({
+        path: record.substring(tab + 1),
+        type: type as GitTreeEntry['type'],
+        mode,
+        size: parseInt(size, 10) || 0,
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Raw bytes of a file at a commit
+   */
+  async readBlob(repoPath: string, commitSha: string, filePath: string): Promise<Buffer> {
+    const git = this.getGit(repoPath);
+    return git.binaryCatFile(['blob', `${commitSha}:${filePath}`]);
+  }
+
   async createWorktree(repoPath: string, worktreePath: string, commitSha: string): Promise<void> {
     const git = this.getGit(repoPath);
 
@@ -92,6 +351,175 @@ export class GitService {
     }
   }
 
+  /**
+   * Move an existing worktree to another commit, keeping HEAD detached
+   */
+  async checkoutDetached(worktreePath: string, commitSha: string): Promise<void> {
+    const git = this.getGit(worktreePath);
+
+    try {
+      await git.raw(['checkout', '--detach', commitSha]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('would be overwritten')) {
+        throw new CommitViewError(
+          'Local changes in the worktree would be overwritten',
+          ErrorCode.DIRTY_WORKING_DIRECTORY,
+          true,
+          error instanceof Error ? error : undefined
+        );
+      }
+      throw new CommitViewError(
+        `Failed to check out ${commitSha}: ${message}`,
+        ErrorCode.CHECKOUT_FAILED,
+        true,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async isValidBranchName(repoPath: string, name: string): Promise<boolean> {
+    try {
+      const git = this.getGit(repoPath);
+      await git.raw(['check-ref-format', '--branch', name]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Start a new branch at the commit a detached worktree has checked out
+   */
+  async createBranch(worktreePath: string, name: string): Promise<void> {
+    const git = this.getGit(worktreePath);
+
+    try {
+      await git.raw(['checkout', '-b', name]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('already exists')) {
+        throw new CommitViewError(
+          `Branch ${name} already exists`,
+          ErrorCode.BRANCH_ALREADY_EXISTS,
+          true,
+          error instanceof Error ? error : undefined
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Count the commits of a branch that would only be reachable through it
+   */
+  async getBranchStatus(repoPath: string, branch: string): Promise<BranchStatus> {
+    const git = this.getGit(repoPath);
+    const ref = `refs/heads/${branch}`;
+
+    // Without remotes there is nowhere to push, so nothing counts as unpushed
+    const hasRemotes = (await git.raw(['remote'])).length > 0;
+
+    const [unpushed, unmerged] = await Promise.all([
+      hasRemotes ? git.raw(['rev-list', '--count', ref, '--not', '--remotes']) : Promise.resolve('0'),
+      git.raw(['rev-list', '--count', ref, '--not', `--exclude=${branch}`, '--branches']),
+    ]);
+
+    return { unpushed: parseInt(unpushed, 10) || 0, unmerged: parseInt(unmerged, 10) || 0 };
+  }
+
+  /**
+   * Start bisecting inside a worktree and check out the first candidate.
+   * Bisect state is per worktree, so the original checkout is never touched.
+   */
+  async bisectStart(worktreePath: string, badSha: string, goodShas: string[]): Promise<BisectStatus> {
+    const git = this.getGit(worktreePath);
+    const output = await git.raw(['bisect', 'start', badSha, ...goodShas]);
+    return this.getBisectStatus(worktreePath, output);
+  }
+
+  async bisectMark(worktreePath: string, verdict: BisectVerdict): Promise<BisectStatus> {
+    const git = this.getGit(worktreePath);
+    const output = await git.raw(['bisect', verdict]);
+    return this.getBisectStatus(worktreePath, output);
+  }
+
+  /**
+   * Let git drive the bisect with a shell command: exit 0 is good, 125 is skip, anything else is bad
+   */
+  async bisectRun(worktreePath: string, command: string, abort?: AbortSignal): Promise<BisectStatus> {
+    const git = this.getGit(worktreePath, abort);
+    const shell = process.platform === 'win32' ? ['cmd', '/c'] : ['sh', '-c'];
+    const output = await git.raw(['bisect', 'run', ...shell, command]);
+    return this.getBisectStatus(worktreePath, output);
+  }
+
+  /**
+   * End the bisect and return the worktree to the commit it was on before it started
+   */
+  async bisectReset(worktreePath: string): Promise<void> {
+    const git = this.getGit(worktreePath);
+    await git.raw(['bisect', 'reset']);
+  }
+
+  /**
+   * Verdicts so far, oldest first, from the comments `git bisect log` writes for each step
+   */
+  async bisectLog(worktreePath: string): Promise<BisectLogEntry[]> {
+    const git = this.getGit(worktreePath);
+
+    let output: string;
+    try {
+      output = await git.raw(['bisect', 'log']);
+    } catch {
+      return []; // Not bisecting
+    }
+
+    const entries: BisectLogEntry[] = [];
+    for (const line of output.split('\n')) {
+      const match = BISECT_LOG_ENTRY.exec(line);
+      if (!match) {
+        continue;
+      }
+
+      const [, label, sha, subject] = match;
+      let kind: BisectLogEntry['kind'];
+      if (label === 'first bad commit') {
+        kind = 'firstBad';
+      } else if (label === 'possible first bad commit') {
+        kind = 'possibleFirstBad';
+      } else {
+        kind = label as BisectVerdict;
+      }
+      entries.push({ kind, sha, subject });
+    }
+
+    return entries;
+  }
+
+  private async getBisectStatus(worktreePath: string, output: string): Promise<BisectStatus> {
+    const status: BisectStatus = { currentSha: await this.getCurrentCommitSha(worktreePath) };
+
+    const firstBad = /^([0-9a-f]{40}) is the first bad commit/m.exec(output);
+    if (firstBad) {
+      status.firstBadSha = firstBad[1];
+      return status;
+    }
+
+    if (output.includes("only 'skip'ped commits left")) {
+      status.candidates = output.match(/^[0-9a-f]{40}$/gm) ?? [];
+      return status;
+    }
+
+    const progress = /Bisecting: (\d+) revisions? left to test after this \(roughly (\d+) steps?\)/.exec(output);
+    if (progress) {
+      status.remaining = parseInt(progress[1], 10);
+      status.steps = parseInt(progress[2], 10);
+    }
+
+    return status;
+  }
+
   async removeWorktree(repoPath: string, worktreePath: string, force: boolean = false): Promise<void> {
     const git = this.getGit(repoPath);
     try {
@@ -120,22 +548,54 @@ export class GitService {
     }
   }
 
+  /**
+   * Keep `git worktree prune` and `git worktree remove` away from a worktree. The reason
+   * shows up in `git worktree list --verbose`.
+   */
+  async lockWorktree(repoPath: string, worktreePath: string, reason: string): Promise<void> {
+    const git = this.getGit(repoPath);
+    await git.raw(['worktree', 'lock', '--reason', reason, worktreePath]);
+  }
+
+  async unlockWorktree(repoPath: string, worktreePath: string): Promise<void> {
+    const git = this.getGit(repoPath);
+    await git.raw(['worktree', 'unlock', worktreePath]);
+  }
+
+  /**
+   * Total size of the files a commit checks out, to estimate a worktree before creating it
+   */
+  async getCommitTreeSize(repoPath: string, commitSha: string): Promise<number> {
+    const git = this.getGit(repoPath);
+    const output = await git.raw(['ls-tree', '-r', '-l', '--full-tree', commitSha]);
+
+    let total = 0;
+    for (const line of output.split('\n')) {
+      // "<mode> <type> <sha> <size>\t<path>", with "-" as the size of submodules
+      const size = parseInt(line.split('\t')[0].split(/\s+/)[3], 10);
+      if (!isNaN(size)) {
+        total += size;
+      }
+    }
+    return total;
+  }
+
   async pruneWorktrees(repoPath: string): Promise<void> {
     const git = this.getGit(repoPath);
     await git.raw(['worktree', 'prune']);
   }
 
-  async listWorktrees(repoPath: string): Promise<{ path: string; sha: string; branch: string | null }[]> {
+  async listWorktrees(repoPath: string): Promise<GitWorktree[]> {
     const git = this.getGit(repoPath);
     const output = await git.raw(['worktree', 'list', '--porcelain']);
 
-    const worktrees: { path: string; sha: string; branch: string | null }[] = [];
-    let current: { path?: string; sha?: string; branch: string | null } = { branch: null };
+    const worktrees: GitWorktree[] = [];
+    let current: Partial<GitWorktree> = { branch: null };
 
     for (const line of output.split('\n')) {
       if (line.startsWith('worktree ')) {
         if (current.path && current.sha) {
-          worktrees.push({ path: current.path, sha: current.sha, branch: current.branch });
+          worktrees.push(current as GitWorktree);
         }
         current = { path: line.substring(9), branch: null };
       } else if (line.startsWith('HEAD ')) {
@@ -144,11 +604,15 @@ export class GitService {
         current.branch = line.substring(7);
       } else if (line === 'detached') {
         current.branch = null;
+      } else if (line === 'locked' || line.startsWith('locked ')) {
+        current.locked = line.substring(7);
+      } else if (line === 'prunable' || line.startsWith('prunable ')) {
+        current.prunable = true;
       }
     }
 
     if (current.path && current.sha) {
-      worktrees.push({ path: current.path, sha: current.sha, branch: current.branch });
+      worktrees.push(current as GitWorktree);
     }
 
     return worktrees;
@@ -163,6 +627,155 @@ export class GitService {
     await git.raw(args);
   }
 
+  /**
+   * Record uncommitted changes to tracked files as a stash commit without touching the
+   * working tree, the index or the stash list. Null when there is nothing to record.
+   */
+  async createStashCommit(repoPath: string): Promise<string | null> {
+    const git = this.getGit(repoPath);
+    const sha = await git.raw(['stash', 'create']);
+    return sha || null;
+  }
+
+  /**
+   * Record the whole working tree, untracked files included, as a commit on top of HEAD.
+   * Files are staged into a copy of the index, so the real index and working tree are left alone.
+   */
+  async createSnapshotCommit(repoPath: string, message: string): Promise<string> {
+    const git = this.getGit(repoPath);
+    const realIndex = path.resolve(repoPath, await git.raw(['rev-parse', '--git-path', 'index']));
+
+    const indexDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'commitview-index-'));
+    const indexFile = path.join(indexDir, 'index');
+
+    try {
+      // Starting from a copy keeps git's stat cache, so unchanged files are not hashed again
+      if (fs.existsSync(realIndex)) {
+        await fs.promises.copyFile(realIndex, indexFile);
+      }
+
+      const snapshotGit = this.getGit(repoPath).env({ ...process.env, GIT_INDEX_FILE: indexFile });
+      await snapshotGit.raw(['add', '--all']);
+      const tree = await snapshotGit.raw(['write-tree']);
+      return await snapshotGit.raw(['commit-tree', tree, '-p', 'HEAD', '-m', message]);
+    } finally {
+      await fs.promises.rm(indexDir, { recursive: true, force: true });
+    }
+  }
+
+  async getUntrackedFiles(repoPath: string): Promise<string[]> {
+    const git = this.getGit(repoPath);
+    const output = await git.raw(['ls-files', '--others', '--exclude-standard', '-z']);
+    return output.split('\0').filter(Boolean);
+  }
+
+  /**
+   * Apply the changes a stash commit records on top of whatever a worktree has checked out.
+   * Hunks that do not fit are left in `.rej` files next to their targets and returned.
+   */
+  async applyStashCommit(worktreePath: string, stashSha: string): Promise<RejectedFile[]> {
+    // Untrimmed, since trailing whitespace is part of the patch
+    const patch = await simpleGit(worktreePath).raw(['diff', '--binary', `${stashSha}^1`, stashSha]);
+    if (!patch.trim()) {
+      return [];
+    }
+
+    const patchDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'commitview-patch-'));
+    const patchFile = path.join(patchDir, 'changes.patch');
+
+    try {
+      await fs.promises.writeFile(patchFile, patch);
+      await this.getGit(worktreePath).raw(['apply', '--reject', '--whitespace=nowarn', patchFile]);
+      return [];
+    } catch (error) {
+      const rejected = parseRejectedFiles(error instanceof Error ? error.message : String(error));
+      if (rejected.length === 0) {
+        throw error;
+      }
+      return rejected;
+    } finally {
+      await fs.promises.rm(patchDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Changes that turn files at a commit into the files on disk in a worktree, with full blob
+   * IDs so another checkout of the same repository can apply them with a three-way merge
+   */
+  async getWorkingTreePatch(worktreePath: string, fromSha: string, filePaths: string[]): Promise<string> {
+    // Untrimmed, since trailing whitespace is part of the patch
+    return simpleGit(worktreePath).raw(['diff', '--binary', '--full-index', fromSha, '--', ...filePaths]);
+  }
+
+  /**
+   * Three-way merge a patch into the files on disk of a working tree, without writing them.
+   * The merge runs in a temporary index seeded with those files, so neither the real index
+   * nor the working tree is touched. Merged content is returned only if every file merged cleanly.
+   */
+  async mergePatchThreeWay(repoPath: string, patch: string, filePaths: string[]): Promise<ThreeWayMergeResult> {
+    // Older versions reject `apply --cached --3way` as an invalid combination
+    const version = await simpleGit().version();
+    if (version.major < 2 || (version.major === 2 && version.minor < 32)) {
+      throw new CommitViewError(
+        `Git version ${version.major}.${version.minor} cannot merge changes into the original. Version 2.32+ required.`,
+        ErrorCode.GIT_VERSION_TOO_OLD,
+        false
+      );
+    }
+
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'commitview-apply-'));
+    const indexFile = path.join(tempDir, 'index');
+    const patchFile = path.join(tempDir, 'changes.patch');
+
+    try {
+      await fs.promises.writeFile(patchFile, patch);
+      const git = this.getGit(repoPath).env({ ...process.env, GIT_INDEX_FILE: indexFile });
+
+      await git.raw(['read-tree', 'HEAD']);
+      const onDisk = filePaths.filter((filePath) => fs.existsSync(path.join(repoPath, filePath)));
+      const missing = filePaths.filter((filePath) => !onDisk.includes(filePath));
+      if (onDisk.length > 0) {
+        await git.raw(['add', '--force', '--', ...onDisk]);
+      }
+      if (missing.length > 0) {
+        await git.raw(['rm', '--cached', '--quiet', '--ignore-unmatch', '--', ...missing]);
+      }
+
+      try {
+        await git.raw(['apply', '--cached', '--3way', patchFile]);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const conflicts = [...message.matchAll(/^U (.+)$/gm)].map((match) => match[1]);
+        if (conflicts.length > 0) {
+          return { files: [], conflicts };
+        }
+        throw error;
+      }
+
+      // Stage 0 entries of the merged paths; a path that is gone was deleted by the patch
+      const output = await git.raw(['ls-files', '--stage', '-z', '--', ...filePaths]);
+      const entries = new Map<string, { mode: string; sha: string }>();
+      for (const record of output.split('\0')) {
+        const match = /^(\d+) ([0-9a-f]+) 0\t(.+)$/.exec(record);
+        if (match) {
+          entries.set(match[3], { mode: match[1], sha: match[2] });
+        }
+      }
+
+      const files: MergedFile[] = [];
+      for (const filePath of filePaths) {
+        const entry = entries.get(filePath);
+        files.push(entry
+          ? { path: filePath, mode: entry.mode, content: await git.binaryCatFile(['blob', entry.sha]) }
+          : { path: filePath, mode: '', content: null });
+      }
+
+      return { files, conflicts: [] };
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
   async getGitVersion(): Promise<string> {
     const git = simpleGit();
     const versionOutput = await git.version();
@@ -190,3 +803,48 @@ export class GitService {
     }
   }
 }
+
+/**
+ * Read which files and hunks `git apply --reject` could not apply from its output
+ */
+function parseRejectedFiles(output: string): RejectedFile[] {
+  const rejected: RejectedFile[] = [];
+  let current: RejectedFile | undefined;
+
+  for (const line of output.split('\n')) {
+    const applying = /^Applying patch (.+) with \d+ rejects?\.\.\.$/.exec(line);
+    if (applying) {
+      current = { path: applying[1], hunks: [] };
+      rejected.push(current);
+      continue;
+    }
+
+    const hunk = /^Rejected hunk #(\d+)\.$/.exec(line);
+    if (hunk && current) {
+      current.hunks.push(parseInt(hunk[1], 10));
+      continue;
+    }
+
+    // e.g. "error: src/a.ts: No such file or directory", but not the per-hunk
+    // "error: patch failed: src/a.ts:12" or "error: while searching for:"
+    const missing = /^error: (.+?): (.+)$/.exec(line);
+    if (missing && missing[1] !== 'patch failed' && missing[1] !== 'while searching for') {
+      rejected.push({ path: missing[1], hunks: [], reason: missing[2] });
+    }
+  }
+
+  return rejected;
+}
+
+function parseReflog(output: string): GitReflogEntry[] {
+  const entries: GitReflogEntry[] = [];
+
+  for (const line of output.split('\n')) {
+    const [selector, sha, message, date] = line.split('\x1f');
+    if (selector && sha) {
+      entries.push({ selector, sha, message: message ?? '', date: date ?? '' });
+    }
+  }
+
+  return entries;
+}
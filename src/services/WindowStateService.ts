@@ -1,17 +1,29 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { WorktreeSource } from './WorktreeManager';
 
 export interface WindowState {
   openFiles: string[];  // Relative paths
   terminals: TerminalState[];
   activeFile?: string;  // Relative path of active editor
+  activeLine?: number;  // 0-based line to reveal in the active editor
 }
 
 export interface TerminalState {
   name: string;
 }
 
+/**
+ * What a commit preview window should show once it opens. Previews have no worktree to record it on.
+ */
+export interface PreviewState {
+  activeFile?: string;  // Relative path
+  activeLine?: number;  // 0-based line to reveal in activeFile
+  source?: WorktreeSource;
+}
+
 const STATE_KEY_PREFIX = 'commitview.windowState.';
+const PREVIEW_STATE_KEY_PREFIX = 'commitview.previewState.';
 
 export class WindowStateService {
   constructor(private globalState: vscode.Memento) {}
@@ -85,6 +97,23 @@ export class WindowStateService {
     await this.globalState.update(key, undefined);
   }
 
+  /**
+   * Save state for the preview window of a commit, keyed by its folder URI
+   */
+  async savePreviewState(folderUri: vscode.Uri, state: PreviewState): Promise<void> {
+    await this.globalState.update(PREVIEW_STATE_KEY_PREFIX + folderUri.toString(), state);
+  }
+
+  /**
+   * Get and clear the saved state in the preview window
+   */
+  async takePreviewState(folderUri: vscode.Uri): Promise<PreviewState | undefined> {
+    const key = PREVIEW_STATE_KEY_PREFIX + folderUri.toString();
+    const state = this.globalState.get<PreviewState>(key);
+    await this.globalState.update(key, undefined);
+    return state;
+  }
+
   /**
    * Restore window state in the new worktree window
    */
@@ -117,7 +146,13 @@ export class WindowStateService {
       try {
         const uri = vscode.Uri.file(activePath);
         await vscode.workspace.fs.stat(uri);
-        await vscode.window.showTextDocument(uri, { preview: false });
+        const editor = await vscode.window.showTextDocument(uri, { preview: false });
+
+        if (state.activeLine !== undefined) {
+          const position = new vscode.Position(state.activeLine, 0);
+          editor.selection = new vscode.Selection(position, position);
+          editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+        }
       } catch {
         // Active file doesn't exist, ignore
       }
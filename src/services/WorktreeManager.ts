@@ -1,7 +1,28 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import { GitService } from './GitService';
-import { generateWorktreePath, isCommitViewTempPath, removeDirectory } from '../utils/tempDir';
+import * as os from 'os';
+import * as path from 'path';
+import { GitService, GitWorktree } from './GitService';
+import {
+  DEFAULT_WORKTREE_NAME_TEMPLATE,
+  generateWorktreePath,
+  getWorktreeGitDir,
+  hasWorktreeMarker,
+  isCommitViewTempPath,
+  removeDirectory,
+  resolveWorktreeRoot,
+  writeWorktreeMarker,
+} from '../utils/tempDir';
+import { CommitViewError, ErrorCode } from '../utils/errors';
+import { getDiskUsage } from '../utils/diskUsage';
+
+export type WorktreeRefKind = 'stash' | 'tag' | 'reflog';
+
+export interface WorktreeSource {
+  kind: WorktreeRefKind;
+  ref: string;  // e.g. "stash@{0}", "v1.2.0", "HEAD@{3}"
+  message?: string;  // Stash or reflog message, which still names the entry once later ones shift its ref
+}
 
 export interface WorktreeInfo {
   id: string;
@@ -10,11 +31,67 @@ export interface WorktreeInfo {
   commitMessage: string;
   originalRepoPath: string;
   createdAt: number;
+  bisect?: boolean;  // Dedicated to a git bisect session, so it moves between commits
+  carriedChanges?: boolean;  // Has the original checkout's uncommitted changes applied on top
+  snapshot?: boolean;  // Checks out a frozen copy of the original working tree rather than a real commit
+  source?: WorktreeSource;  // The ref it was opened from, when not picked from the commit log
+  branch?: string;  // Branch started in the worktree, see attachBranch
+  persistent?: boolean;  // Never removed automatically, only by an explicit cleanup
+  pinned?: boolean;  // Kept across window closes, reloads and every cleanup until unpinned
+}
+
+export interface CreateWorktreeOptions {
+  bisect?: boolean;  // Always create a new worktree and mark it as a bisect session
+  carryChanges?: boolean;  // Always create a new worktree, to apply uncommitted changes to
+  snapshot?: boolean;  // The commit is a snapshot of the working tree, see GitService.createSnapshotCommit
+  source?: WorktreeSource;  // Record which ref the commit was opened from
+}
+
+/**
+ * Ways a tracked worktree can disagree with git, see reconcile:
+ * unregistered - the directory exists but git has no worktree entry for it any more
+ * headMoved - git has another commit checked out than the one recorded
+ */
+export type WorktreeIssue = 'unregistered' | 'headMoved';
+
+export interface ReconcileResult {
+  adopted: WorktreeInfo[];
+  forgotten: number;  // Tracked worktrees whose directory was gone
+  pruned: number;     // Git worktree entries whose directory was gone
+  issues: number;
+}
+
+export interface WorktreeUsage {
+  worktree: WorktreeInfo;
+  size: number;        // Bytes on disk, without the files and directories linked in from the original
+  lastOpened: number;
+}
+
+export interface EvictionPlan {
+  evict: WorktreeUsage[];  // Least recently opened first
+  withinBudget: boolean;   // False if removing all of them still leaves the budget exceeded
 }
 
 const WORKTREES_KEY = 'commitview.worktrees';
 
+// Measuring a large checkout takes a while, so sizes are reused for a few minutes
+const SIZE_CACHE_MS = 5 * 60 * 1000;
+
+// Kept next to the marker in the worktree's admin directory, see acquireWindowLock
+const WINDOW_LOCK_FILE = 'commitview-window.json';
+const WINDOW_LOCK_REASON = 'Open in a CommitView window';
+const HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000;
+
+interface WindowLock {
+  pid?: number;      // Extension host of the window that has the worktree open, unset once it closed
+  hostname: string;
+  lastSeen: number;  // Updated by the heartbeat, so expiry counts from when the worktree was last open
+}
+
 export class WorktreeManager {
+  private sizeCache = new Map<string, { size: number; measuredAt: number }>();
+  private issues = new Map<string, WorktreeIssue>();
+
   constructor(
     private gitService: GitService,
     private globalState: vscode.Memento
@@ -23,20 +100,38 @@ export class WorktreeManager {
   async createWorktree(
     repoPath: string,
     commitSha: string,
-    commitMessage: string
+    commitMessage: string,
+    options: CreateWorktreeOptions = {}
   ): Promise<WorktreeInfo> {
     // Check if we already have a worktree for this commit
-    const existing = await this.findWorktreeByCommit(repoPath, commitSha);
+    const dedicated = options.bisect || options.carryChanges;
+    const existing = dedicated ? null : await this.findWorktreeByCommit(repoPath, commitSha);
     if (existing) {
-      return existing;
+      // Remember where the commit was picked from if the worktree was opened without it before
+      return options.source && !existing.source
+        ? this.updateWorktree(existing, { source: options.source })
+        : existing;
     }
 
     const repoName = await this.gitService.getRepoName(repoPath);
     const shortSha = commitSha.substring(0, 7);
-    const worktreePath = generateWorktreePath(repoName, shortSha, commitMessage);
+    const pathLabel = getPathLabel(commitMessage, options);
+    const worktreePath = await this.getNewWorktreePath(repoPath, repoName, shortSha, pathLabel);
 
     await this.gitService.createWorktree(repoPath, worktreePath, commitSha);
 
+    try {
+      writeWorktreeMarker(worktreePath);
+    } catch (error) {
+      await this.gitService.removeWorktree(repoPath, worktreePath, true).catch(() => undefined);
+      throw new CommitViewError(
+        `Failed to mark worktree: ${error instanceof Error ? error.message : String(error)}`,
+        ErrorCode.WORKTREE_CREATION_FAILED,
+        true,
+        error instanceof Error ? error : undefined
+      );
+    }
+
     const worktree: WorktreeInfo = {
       id: `${repoName}-${shortSha}-${Date.now()}`,
       path: worktreePath,
@@ -44,6 +139,10 @@ export class WorktreeManager {
       commitMessage,
       originalRepoPath: repoPath,
       createdAt: Date.now(),
+      ...(options.bisect ? { bisect: true } : {}),
+      ...(options.carryChanges ? { carriedChanges: true } : {}),
+      ...(options.snapshot ? { snapshot: true } : {}),
+      ...(options.source ? { source: options.source } : {}),
     };
 
     await this.trackWorktree(worktree);
@@ -51,10 +150,45 @@ export class WorktreeManager {
     return worktree;
   }
 
+  /**
+   * Check out another commit inside an existing worktree and record it, keeping the same path
+   */
+  async checkoutCommit(worktreePath: string, commitSha: string, commitMessage: string): Promise<WorktreeInfo> {
+    const worktree = await this.getWorktreeInfo(worktreePath);
+    if (!worktree) {
+      throw new CommitViewError(`${worktreePath} is not a CommitView worktree`, ErrorCode.UNKNOWN);
+    }
+
+    await this.gitService.checkoutDetached(worktreePath, commitSha);
+    return this.updateWorktree(worktree, { commitSha, commitMessage });
+  }
+
+  /**
+   * Record new details for a tracked worktree, e.g. after git moved it to another commit
+   */
+  async updateWorktree(
+    worktree: WorktreeInfo,
+    changes: Partial<Pick<WorktreeInfo, 'commitSha' | 'commitMessage' | 'bisect' | 'branch' | 'persistent' | 'pinned' | 'source'>>
+  ): Promise<WorktreeInfo> {
+    const updated: WorktreeInfo = { ...worktree, ...changes };
+    const worktrees = this.getTrackedWorktrees().map((w) => (w.path === worktree.path ? updated : w));
+    await this.globalState.update(WORKTREES_KEY, worktrees);
+    return updated;
+  }
+
+  /**
+   * Start a branch at the worktree's commit. The worktree then holds work of its own,
+   * so it is kept until explicitly cleaned up.
+   */
+  async attachBranch(worktree: WorktreeInfo, branch: string): Promise<WorktreeInfo> {
+    await this.gitService.createBranch(worktree.path, branch);
+    return this.updateWorktree(worktree, { branch, persistent: true });
+  }
+
   async findWorktreeByCommit(repoPath: string, commitSha: string): Promise<WorktreeInfo | null> {
     const trackedWorktrees = this.getTrackedWorktrees();
     const existing = trackedWorktrees.find(
-      (w) => w.originalRepoPath === repoPath && w.commitSha === commitSha
+      (w) => w.originalRepoPath === repoPath && w.commitSha === commitSha && isPlainView(w)
     );
 
     // Verify the directory still exists
@@ -74,6 +208,13 @@ export class WorktreeManager {
     const worktree = await this.getWorktreeInfo(worktreePath);
 
     if (worktree) {
+      // Git refuses to remove a locked worktree, even with --force
+      try {
+        await this.gitService.unlockWorktree(worktree.originalRepoPath, worktreePath);
+      } catch {
+        // Not locked
+      }
+
       try {
         await this.gitService.removeWorktree(worktree.originalRepoPath, worktreePath);
       } catch {
@@ -94,9 +235,10 @@ export class WorktreeManager {
       }
 
       await this.untrackWorktree(worktreePath);
+      this.sizeCache.delete(worktreePath);
     } else {
-      // Not tracked, just remove directory if it's a commitview temp path
-      if (isCommitViewTempPath(worktreePath) && fs.existsSync(worktreePath)) {
+      // Not tracked, just remove directory if CommitView created it
+      if (hasWorktreeMarker(worktreePath)) {
         removeDirectory(worktreePath);
       }
     }
@@ -121,11 +263,18 @@ export class WorktreeManager {
     return trackedWorktrees.filter((w) => w.originalRepoPath === repoPath);
   }
 
+  /**
+   * Remove every tracked worktree except pinned ones
+   */
   async cleanupAll(): Promise<number> {
     const trackedWorktrees = this.getTrackedWorktrees();
     let cleanedCount = 0;
 
     for (const worktree of trackedWorktrees) {
+      if (worktree.pinned) {
+        continue;
+      }
+
       try {
         await this.removeWorktree(worktree.path);
         cleanedCount++;
@@ -137,8 +286,13 @@ export class WorktreeManager {
     return cleanedCount;
   }
 
+  /**
+   * Remove worktrees that are gone from disk or whose repository is gone, and worktrees
+   * that no window has had open for longer than the worktreeExpiryHours setting
+   */
   async cleanupStaleWorktrees(): Promise<number> {
     const trackedWorktrees = this.getTrackedWorktrees();
+    const expiryHours = vscode.workspace.getConfiguration('commitview').get<number>('worktreeExpiryHours', 24);
     let cleanedCount = 0;
 
     for (const worktree of trackedWorktrees) {
@@ -149,6 +303,11 @@ export class WorktreeManager {
         continue;
       }
 
+      // Kept even when the original repo has moved, as they may hold work of their own
+      if (worktree.persistent || worktree.pinned) {
+        continue;
+      }
+
       // Check if original repo still exists
       if (!fs.existsSync(worktree.originalRepoPath)) {
         removeDirectory(worktree.path);
@@ -157,12 +316,11 @@ export class WorktreeManager {
         continue;
       }
 
-      // Check if worktree is older than 24 hours and no VS Code window is open
-      // (We can't reliably detect open windows, so we use age as a heuristic)
-      const ageMs = Date.now() - worktree.createdAt;
-      const maxAgeMs = 24 * 60 * 60 * 1000; // 24 hours
+      if (expiryHours <= 0 || this.isOpenInWindow(worktree.path)) {
+        continue;
+      }
 
-      if (ageMs > maxAgeMs) {
+      if (Date.now() - this.getLastOpened(worktree) > expiryHours * 60 * 60 * 1000) {
         try {
           await this.removeWorktree(worktree.path);
           cleanedCount++;
@@ -175,12 +333,311 @@ export class WorktreeManager {
     return cleanedCount;
   }
 
+  /**
+   * Claim a worktree for this window until it closes. A lock file names this extension host
+   * so other windows can tell whether it is still running, and `git worktree lock` keeps
+   * `git worktree prune` away. Dispose the result to stop the heartbeat.
+   */
+  async acquireWindowLock(worktree: WorktreeInfo): Promise<vscode.Disposable> {
+    writeWindowLock(worktree.path, { pid: process.pid, hostname: os.hostname(), lastSeen: Date.now() });
+
+    try {
+      // A window that crashed leaves its git lock behind, with an outdated reason
+      await this.gitService.unlockWorktree(worktree.originalRepoPath, worktree.path);
+    } catch {
+      // Not locked
+    }
+    await this.gitService.lockWorktree(
+      worktree.originalRepoPath,
+      worktree.path,
+      `${WINDOW_LOCK_REASON} (pid ${process.pid} on ${os.hostname()})`
+    );
+
+    const timer = setInterval(() => {
+      if (isOwnWindowLock(readWindowLock(worktree.path))) {
+        writeWindowLock(worktree.path, { pid: process.pid, hostname: os.hostname(), lastSeen: Date.now() });
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return new vscode.Disposable(() => clearInterval(timer));
+  }
+
+  /**
+   * Hand a worktree back when its window closes without removing it. Does nothing if
+   * another window has taken the worktree over since.
+   */
+  async releaseWindowLock(worktree: WorktreeInfo): Promise<void> {
+    if (!isOwnWindowLock(readWindowLock(worktree.path))) {
+      return;
+    }
+
+    writeWindowLock(worktree.path, { hostname: os.hostname(), lastSeen: Date.now() });
+    try {
+      await this.gitService.unlockWorktree(worktree.originalRepoPath, worktree.path);
+    } catch {
+      // Already unlocked
+    }
+  }
+
+  /**
+   * False only when the window that had the worktree open has provably exited: it released
+   * the worktree, or its extension host is no longer running. A window on another host
+   * cannot be checked, so it counts as open.
+   */
+  isOpenInWindow(worktreePath: string): boolean {
+    const lock = readWindowLock(worktreePath);
+    if (!lock?.pid) {
+      return false;
+    }
+    return lock.hostname !== os.hostname() || isProcessRunning(lock.pid);
+  }
+
+  /**
+   * When a window last had the worktree open, or when it was created if never
+   */
+  getLastOpened(worktree: WorktreeInfo): number {
+    return readWindowLock(worktree.path)?.lastSeen ?? worktree.createdAt;
+  }
+
+  /**
+   * The size measured by getWorktreeSize, if recent enough
+   */
+  getCachedWorktreeSize(worktreePath: string): number | undefined {
+    const cached = this.sizeCache.get(worktreePath);
+    return cached && Date.now() - cached.measuredAt < SIZE_CACHE_MS ? cached.size : undefined;
+  }
+
+  async getWorktreeSize(worktreePath: string): Promise<number> {
+    const cached = this.getCachedWorktreeSize(worktreePath);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const size = await getDiskUsage(worktreePath);
+    this.sizeCache.set(worktreePath, { size, measuredAt: Date.now() });
+    return size;
+  }
+
+  /**
+   * Check whether a new worktree for the commit fits the maxWorktrees and maxTotalWorktreeSize
+   * budget, and if not, which worktrees to remove to make room: the least recently opened ones
+   * that are not pinned, not on a branch and not open in a window.
+   * Returns undefined when nothing needs to be removed, including when an existing worktree is reused.
+   */
+  async planEviction(
+    repoPath: string,
+    commitSha: string,
+    options: CreateWorktreeOptions = {}
+  ): Promise<EvictionPlan | undefined> {
+    const config = vscode.workspace.getConfiguration('commitview');
+    const maxWorktrees = config.get<number>('maxWorktrees', 0);
+    const maxBytes = config.get<number>('maxTotalWorktreeSize', 0) * 1024 * 1024 * 1024;
+
+    if (maxWorktrees <= 0 && maxBytes <= 0) {
+      return undefined;
+    }
+
+    const dedicated = options.bisect || options.carryChanges;
+    if (!dedicated && (await this.findWorktreeByCommit(repoPath, commitSha))) {
+      return undefined;
+    }
+
+    const usages: WorktreeUsage[] = [];
+    for (const worktree of this.getTrackedWorktrees()) {
+      if (fs.existsSync(worktree.path)) {
+        const size = maxBytes > 0 ? await this.getWorktreeSize(worktree.path) : 0;
+        usages.push({ worktree, size, lastOpened: this.getLastOpened(worktree) });
+      }
+    }
+
+    let count = usages.length + 1;
+    let total = usages.reduce((sum, usage) => sum + usage.size, 0);
+    if (maxBytes > 0) {
+      total += await this.gitService.getCommitTreeSize(repoPath, commitSha);
+    }
+
+    const overBudget = (): boolean =>
+      (maxWorktrees > 0 && count > maxWorktrees) || (maxBytes > 0 && total > maxBytes);
+
+    if (!overBudget()) {
+      return undefined;
+    }
+
+    const candidates = usages
+      .filter(({ worktree }) => !worktree.pinned && !worktree.persistent && !this.isOpenInWindow(worktree.path))
+      .sort((a, b) => a.lastOpened - b.lastOpened);
+
+    const evict: WorktreeUsage[] = [];
+    for (const candidate of candidates) {
+      if (!overBudget()) {
+        break;
+      }
+      evict.push(candidate);
+      count--;
+      total -= candidate.size;
+    }
+
+    return { evict, withinBudget: !overBudget() };
+  }
+
+  /**
+   * Bring the tracked worktrees in line with `git worktree list` and the filesystem, for every
+   * repository with tracked worktrees plus extraRepoPaths. Forgets worktrees whose directory
+   * is gone, prunes git entries whose directory is gone, and adopts CommitView worktrees that
+   * are not tracked, e.g. left by a crashed window, another profile or the CLI.
+   * Disagreements that remain are reported by getIssue.
+   */
+  async reconcile(extraRepoPaths: string[] = []): Promise<ReconcileResult> {
+    const result: ReconcileResult = { adopted: [], forgotten: 0, pruned: 0, issues: 0 };
+    const repoPaths = new Set([...this.getTrackedWorktrees().map((w) => w.originalRepoPath), ...extraRepoPaths]);
+    this.issues.clear();
+
+    for (const repoPath of repoPaths) {
+      if (!fs.existsSync(repoPath)) {
+        continue; // cleanupStaleWorktrees removes its worktrees
+      }
+
+      let gitWorktrees: GitWorktree[];
+      try {
+        gitWorktrees = await this.gitService.listWorktrees(repoPath);
+      } catch {
+        continue; // Not a repository
+      }
+
+      result.pruned += await this.pruneDanglingEntries(repoPath, gitWorktrees);
+
+      const registered = new Map(gitWorktrees.map((entry) => [normalizePath(entry.path), entry]));
+      for (const worktree of this.getTrackedWorktrees().filter((w) => w.originalRepoPath === repoPath)) {
+        if (!fs.existsSync(worktree.path)) {
+          await this.untrackWorktree(worktree.path);
+          result.forgotten++;
+          continue;
+        }
+
+        const entry = registered.get(normalizePath(worktree.path));
+        if (!entry) {
+          this.issues.set(worktree.path, 'unregistered');
+        } else if (entry.sha !== worktree.commitSha && !worktree.bisect && !worktree.branch) {
+          // Bisect and branch worktrees move on their own
+          this.issues.set(worktree.path, 'headMoved');
+        }
+      }
+
+      const trackedPaths = new Set(this.getTrackedWorktrees().map((w) => normalizePath(w.path)));
+      for (const entry of gitWorktrees) {
+        const entryPath = normalizePath(entry.path);
+        if (
+          entryPath === normalizePath(repoPath) ||
+          trackedPaths.has(entryPath) ||
+          !fs.existsSync(entry.path) ||
+          !hasWorktreeMarker(entry.path)
+        ) {
+          continue;
+        }
+        result.adopted.push(await this.adoptWorktree(repoPath, entry));
+      }
+    }
+
+    result.issues = this.issues.size;
+    return result;
+  }
+
+  /**
+   * How a tracked worktree disagreed with git at the last reconcile, if it did
+   */
+  getIssue(worktreePath: string): WorktreeIssue | undefined {
+    return this.issues.get(worktreePath);
+  }
+
+  /**
+   * Prune git entries whose directory is gone. Window locks on them are stale, as no window
+   * can have a missing directory open, so they are lifted first. Returns how many were pruned.
+   */
+  private async pruneDanglingEntries(repoPath: string, gitWorktrees: GitWorktree[]): Promise<number> {
+    const dangling = gitWorktrees.filter((entry) => entry.prunable || !fs.existsSync(entry.path));
+    if (dangling.length === 0) {
+      return 0;
+    }
+
+    for (const entry of dangling) {
+      if (entry.locked?.startsWith(WINDOW_LOCK_REASON)) {
+        try {
+          await this.gitService.unlockWorktree(repoPath, entry.path);
+        } catch {
+          // Unlocked in the meantime
+        }
+      }
+    }
+
+    try {
+      await this.gitService.pruneWorktrees(repoPath);
+      return gitWorktrees.length - (await this.gitService.listWorktrees(repoPath)).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async adoptWorktree(repoPath: string, entry: GitWorktree): Promise<WorktreeInfo> {
+    const repoName = await this.gitService.getRepoName(repoPath);
+    const shortSha = entry.sha.substring(0, 7);
+    const branch = entry.branch?.replace(/^refs\/heads\//, '');
+
+    let commitMessage = shortSha;
+    try {
+      commitMessage = (await this.gitService.getCommitSubject(repoPath, entry.sha)) || shortSha;
+    } catch {
+      // Keep the short SHA
+    }
+
+    // Counts as created now, so expiry gives it the usual grace period
+    const worktree: WorktreeInfo = {
+      id: `${repoName}-${shortSha}-${Date.now()}`,
+      path: path.resolve(entry.path),
+      commitSha: entry.sha,
+      commitMessage,
+      originalRepoPath: repoPath,
+      createdAt: Date.now(),
+      ...(branch ? { branch, persistent: true } : {}),
+    };
+
+    await this.trackWorktree(worktree);
+    return worktree;
+  }
+
   getTrackedWorktrees(): WorktreeInfo[] {
     return this.globalState.get<WorktreeInfo[]>(WORKTREES_KEY, []);
   }
 
+  /**
+   * Pick a free path from the worktreeRoot and worktreeNameTemplate settings,
+   * which a repository's folder settings can override
+   */
+  private async getNewWorktreePath(
+    repoPath: string,
+    repoName: string,
+    shortSha: string,
+    subject: string
+  ): Promise<string> {
+    const config = vscode.workspace.getConfiguration('commitview', vscode.Uri.file(repoPath));
+    const root = resolveWorktreeRoot(config.get<string>('worktreeRoot', ''), repoPath);
+    const template = config.get<string>('worktreeNameTemplate', '').trim() || DEFAULT_WORKTREE_NAME_TEMPLATE;
+
+    let branch = '';
+    if (template.includes('{branch}')) {
+      try {
+        const current = await this.gitService.getCurrentBranch(repoPath);
+        branch = current === 'HEAD' ? '' : current; // Detached HEAD has no branch name
+      } catch {
+        // No commits yet
+      }
+    }
+
+    return generateWorktreePath(root, template, { repo: repoName, sha: shortSha, subject, branch, repoPath });
+  }
+
   private async trackWorktree(worktree: WorktreeInfo): Promise<void> {
-    const worktrees = this.getTrackedWorktrees();
+    // Replace rather than duplicate, in case a reconcile in another window adopted it first
+    const worktrees = this.getTrackedWorktrees().filter((w) => w.path !== worktree.path);
     worktrees.push(worktree);
     await this.globalState.update(WORKTREES_KEY, worktrees);
   }
@@ -191,3 +648,77 @@ export class WorktreeManager {
     await this.globalState.update(WORKTREES_KEY, filtered);
   }
 }
+
+/**
+ * Only plain views of a commit are reused: bisect worktrees move on every verdict,
+ * and the others hold edits of their own
+ */
+function isPlainView(worktree: WorktreeInfo): boolean {
+  return !worktree.bisect && !worktree.carriedChanges && !worktree.branch;
+}
+
+/**
+ * Name special-purpose worktrees after their purpose, the rest after the commit
+ */
+function getPathLabel(commitMessage: string, options: CreateWorktreeOptions): string {
+  if (options.bisect) {
+    return 'bisect';
+  }
+  if (options.carryChanges) {
+    return 'with changes';
+  }
+  if (options.snapshot) {
+    return 'snapshot';
+  }
+  return commitMessage;
+}
+
+/**
+ * Compare paths as git and VS Code may spell them differently, e.g. through symlinked temp dirs
+ */
+function normalizePath(worktreePath: string): string {
+  try {
+    return fs.realpathSync(worktreePath);
+  } catch {
+    return path.resolve(worktreePath);
+  }
+}
+
+function getWindowLockPath(worktreePath: string): string | undefined {
+  const gitDir = getWorktreeGitDir(worktreePath);
+  return gitDir ? path.join(gitDir, WINDOW_LOCK_FILE) : undefined;
+}
+
+function readWindowLock(worktreePath: string): WindowLock | undefined {
+  const lockPath = getWindowLockPath(worktreePath);
+  if (!lockPath) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, 'utf8')) as WindowLock;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeWindowLock(worktreePath: string, lock: WindowLock): void {
+  const lockPath = getWindowLockPath(worktreePath);
+  if (lockPath) {
+    fs.writeFileSync(lockPath, JSON.stringify(lock));
+  }
+}
+
+function isOwnWindowLock(lock: WindowLock | undefined): boolean {
+  return lock?.pid === process.pid && lock.hostname === os.hostname();
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0); // Signal 0 only checks that the process exists
+    return true;
+  } catch (error) {
+    // EPERM: it exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,36 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Bytes taken by the files under a directory. Symlinks are not followed, so the files and
+ * directories FileCopyService links into a worktree do not count.
+ */
+export async function getDiskUsage(dirPath: string): Promise<number> {
+  let total = 0;
+  const pending = [dirPath];
+
+  while (pending.length > 0) {
+    const dir = pending.pop()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      continue; // Removed or unreadable
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(entryPath);
+      } else if (entry.isFile()) {
+        try {
+          total += (await fs.promises.lstat(entryPath)).size;
+        } catch {
+          // Removed while measuring
+        }
+      }
+    }
+  }
+
+  return total;
+}
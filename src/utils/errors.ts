@@ -8,6 +8,8 @@ export enum ErrorCode {
   WORKTREE_CREATION_FAILED = 'WORKTREE_CREATION_FAILED',
   WORKTREE_LOCKED = 'WORKTREE_LOCKED',
   WORKTREE_REMOVAL_FAILED = 'WORKTREE_REMOVAL_FAILED',
+  CHECKOUT_FAILED = 'CHECKOUT_FAILED',
+  BRANCH_ALREADY_EXISTS = 'BRANCH_ALREADY_EXISTS',
   FILE_COPY_FAILED = 'FILE_COPY_FAILED',
   UNKNOWN = 'UNKNOWN',
 }
@@ -35,6 +37,8 @@ export function getUserFriendlyMessage(code: ErrorCode): string {
     [ErrorCode.WORKTREE_CREATION_FAILED]: 'Failed to create worktree.',
     [ErrorCode.WORKTREE_LOCKED]: 'The worktree is locked by another process.',
     [ErrorCode.WORKTREE_REMOVAL_FAILED]: 'Failed to remove worktree.',
+    [ErrorCode.CHECKOUT_FAILED]: 'Failed to check out the commit in the worktree.',
+    [ErrorCode.BRANCH_ALREADY_EXISTS]: 'A branch with this name already exists.',
     [ErrorCode.FILE_COPY_FAILED]: 'Failed to copy configuration files.',
     [ErrorCode.UNKNOWN]: 'An unexpected error occurred.',
   };
@@ -0,0 +1,25 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Repository-relative path with forward slashes, or undefined for files outside the repo
+ */
+export function toGitPath(repoPath: string, fileUri: vscode.Uri): string | undefined {
+  if (fileUri.scheme !== 'file') {
+    return undefined;
+  }
+
+  const relativePath = path.relative(repoPath, fileUri.fsPath);
+  if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return undefined;
+  }
+
+  return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * Convert a git path back to the platform's separators
+ */
+export function fromGitPath(gitPath: string): string {
+  return gitPath.split('/').join(path.sep);
+}
@@ -0,0 +1,41 @@
+/**
+ * Convert a glob to a RegExp. Supports `**` (any number of path segments),
+ * `*` (within one segment) and `?`. Patterns without a slash match any path
+ * segment, like .gitignore entries.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.trim().replace(/\\/g, '/').replace(/^\//, '');
+  const matchBasename = !normalized.includes('/');
+
+  let regex = '';
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+
+    if (char === '*') {
+      if (normalized[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (normalized[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  // A pattern matching a directory also matches everything beneath it
+  return matchBasename ? new RegExp(`(?:^|/)${regex}(?:/.*)?$`) : new RegExp(`^${regex}(?:/.*)?$`);
+}
+
+export function matchesAnyGlob(filePath: string, patterns: string[]): boolean {
+  const normalizedPath = filePath.replace(/\\/g, '/');
+  return patterns.some((pattern) => pattern.trim() && globToRegExp(pattern).test(normalizedPath));
+}
@@ -0,0 +1,68 @@
+export interface GraphRow {
+  column: number;         // Lane of the commit node
+  mergeIn: number[];      // Lanes that end in this commit (its children), drawn into the node
+  parentLanes: number[];  // Lanes leaving the node towards each parent, first parent first
+  passThrough: number[];  // Lanes that continue past this row untouched
+}
+
+/**
+ * Assigns commits to lanes for drawing a commit graph. Commits must be added newest first
+ * (children before parents). State is kept between calls so pages can be appended.
+ */
+export class GraphLayout {
+  // Each lane holds the SHA of the commit it is waiting for, or null when free
+  private lanes: (string | null)[] = [];
+  private maxLanes = 0;
+
+  add(sha: string, parents: string[]): GraphRow {
+    const mergeIn: number[] = [];
+    const passThrough: number[] = [];
+
+    this.lanes.forEach((expected, lane) => {
+      if (expected === sha) {
+        mergeIn.push(lane);
+      } else if (expected !== null) {
+        passThrough.push(lane);
+      }
+    });
+
+    // A commit nobody was waiting for is a branch tip and starts a new lane
+    const column = mergeIn.length > 0 ? mergeIn[0] : this.allocateLane();
+    for (const lane of mergeIn) {
+      this.lanes[lane] = null;
+    }
+
+    const parentLanes = parents.map((parent, index) => {
+      const existing = this.lanes.indexOf(parent);
+      if (existing !== -1) {
+        return existing;
+      }
+
+      // The first parent continues the commit's own lane
+      const lane = index === 0 && this.lanes[column] === null ? column : this.allocateLane();
+      this.lanes[lane] = parent;
+      return lane;
+    });
+
+    this.maxLanes = Math.max(this.maxLanes, this.lanes.length);
+
+    while (this.lanes.length > 0 && this.lanes[this.lanes.length - 1] === null) {
+      this.lanes.pop();
+    }
+
+    return { column, mergeIn, parentLanes, passThrough };
+  }
+
+  get width(): number {
+    return this.maxLanes;
+  }
+
+  private allocateLane(): number {
+    const free = this.lanes.indexOf(null);
+    if (free !== -1) {
+      return free;
+    }
+    this.lanes.push(null);
+    return this.lanes.length - 1;
+  }
+}
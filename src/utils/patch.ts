@@ -0,0 +1,64 @@
+export interface PatchHunk {
+  oldStart: number;  // 1-based first line on the old side
+  oldLines: number;
+  newStart: number;  // 1-based first line on the new side
+  newLines: number;
+  text: string;      // The "@@" header line and body, each line ending in "\n"
+}
+
+export interface FilePatch {
+  header: string;  // "diff --git" line through "+++" line, or the whole entry for binary changes
+  hunks: PatchHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Split `git diff` output into files and hunks, keeping every line verbatim
+ */
+export function parsePatch(patch: string): FilePatch[] {
+  const files: FilePatch[] = [];
+  let file: FilePatch | undefined;
+  let hunk: PatchHunk | undefined;
+
+  for (const line of patch.split(/(?<=\n)/)) {
+    if (line.startsWith('diff --git ')) {
+      file = { header: line, hunks: [] };
+      hunk = undefined;
+      files.push(file);
+      continue;
+    }
+    if (!file) {
+      continue;
+    }
+
+    const match = HUNK_HEADER.exec(line);
+    if (match) {
+      hunk = {
+        oldStart: parseInt(match[1], 10),
+        oldLines: match[2] === undefined ? 1 : parseInt(match[2], 10),
+        newStart: parseInt(match[3], 10),
+        newLines: match[4] === undefined ? 1 : parseInt(match[4], 10),
+        text: line,
+      };
+      file.hunks.push(hunk);
+    } else if (hunk) {
+      hunk.text += line;
+    } else {
+      file.header += line;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Join files and hunks back into a patch. Hunks may be left out: git apply finds the
+ * remaining ones even though their line numbers no longer account for the missing ones.
+ */
+export function formatPatch(files: FilePatch[]): string {
+  return files
+    .filter((file) => file.hunks.length > 0 || !file.header.includes('\n---'))
+    .map((file) => file.header + file.hunks.map((hunk) => hunk.text).join(''))
+    .join('');
+}
@@ -1,34 +1,79 @@
 import * as os from 'os';
 import * as path from 'path';
 import * as fs from 'fs';
-import { randomUUID } from 'crypto';
+import { createHash } from 'crypto';
+
+export const DEFAULT_WORKTREE_NAME_TEMPLATE = 'temp-{repo}-{sha}-{subject}';
+
+// Kept in the worktree's admin directory inside the repository's .git, so it never shows
+// up in the worktree's git status and goes away with `git worktree remove`
+const WORKTREE_MARKER = 'commitview';
+
+export interface WorktreeNameTokens {
+  repo: string;
+  sha: string;       // Short SHA
+  subject?: string;
+  branch?: string;   // Branch checked out in the original repository
+  repoPath: string;  // Hashed for {repoHash}, which tells apart repositories with the same name
+}
 
 export function getTempDir(): string {
   return os.tmpdir();
 }
 
-export function generateWorktreePath(repoName: string, shortSha: string, commitSubject?: string): string {
-  const safeName = repoName.replace(/[^a-zA-Z0-9-_]/g, '-').substring(0, 20);
+/**
+ * Where worktrees go: the OS temp dir unless configured. "~" is the home directory
+ * and relative roots are resolved against the repository.
+ */
+export function resolveWorktreeRoot(configuredRoot: string, repoPath: string): string {
+  const root = configuredRoot.trim();
+  if (!root) {
+    return getTempDir();
+  }
+  return path.resolve(repoPath, root.replace(/^~(?=$|[\\/])/, os.homedir()));
+}
 
-  // Create a short, readable version of the commit message
-  let shortMessage = '';
-  if (commitSubject) {
-    shortMessage = commitSubject
-      .toLowerCase()
-      .replace(/[^a-zA-Z0-9\s]/g, '')  // Remove special chars
-      .trim()
-      .split(/\s+/)                      // Split by whitespace
-      .slice(0, 3)                       // Take first 3 words
-      .join('-')
-      .substring(0, 25);                 // Max 25 chars
+/**
+ * Fill in the naming template and return a path under root that does not exist yet,
+ * adding a numeric suffix when the name is taken
+ */
+export function generateWorktreePath(root: string, template: string, tokens: WorktreeNameTokens): string {
+  const values: Record<string, string> = {
+    repo: tokens.repo.replace(/[^a-zA-Z0-9-_]/g, '-').substring(0, 20),
+    sha: tokens.sha,
+    subject: shortenSubject(tokens.subject),
+    branch: (tokens.branch ?? '').replace(/[^a-zA-Z0-9-_.]/g, '-').substring(0, 30),
+    repoHash: createHash('sha1').update(tokens.repoPath).digest('hex').substring(0, 8),
+  };
+
+  const folderName = template
+    .replace(/\{(\w+)\}/g, (match, token: string) => values[token] ?? match)
+    .replace(/[\\/:*?"<>|\s]+/g, '-')
+    .replace(/-{2,}/g, '-')           // Left behind by empty tokens
+    .replace(/^[-.]+|[-.]+$/g, '');
+
+  const basePath = path.join(root, folderName || `${values.repo}-${values.sha}`);
+  let candidate = basePath;
+  for (let n = 2; fs.existsSync(candidate); n++) {
+    candidate = `${basePath}-${n}`;
   }
+  return candidate;
+}
 
-  // Format: temp-{repo}-{sha}-{message}
-  const folderName = shortMessage
-    ? `temp-${safeName}-${shortSha}-${shortMessage}`
-    : `temp-${safeName}-${shortSha}`;
+function shortenSubject(commitSubject?: string): string {
+  if (!commitSubject) {
+    return '';
+  }
 
-  return path.join(getTempDir(), folderName);
+  // Create a short, readable version of the commit message
+  return commitSubject
+    .toLowerCase()
+    .replace(/[^a-zA-Z0-9\s]/g, '')  // Remove special chars
+    .trim()
+    .split(/\s+/)                      // Split by whitespace
+    .slice(0, 3)                       // Take first 3 words
+    .join('-')
+    .substring(0, 25);                 // Max 25 chars
 }
 
 export function ensureDirectoryExists(dirPath: string): void {
@@ -43,7 +88,47 @@ export function removeDirectory(dirPath: string): void {
   }
 }
 
+/**
+ * Mark a freshly added worktree as created by CommitView, see hasWorktreeMarker
+ */
+export function writeWorktreeMarker(worktreePath: string): void {
+  const gitDir = getWorktreeGitDir(worktreePath);
+  if (!gitDir) {
+    throw new Error(`${worktreePath} is not a linked git worktree`);
+  }
+  fs.writeFileSync(path.join(gitDir, WORKTREE_MARKER), '');
+}
+
+/**
+ * Whether CommitView created this worktree. Use this for worktrees it does not track yet.
+ */
+export function hasWorktreeMarker(dirPath: string): boolean {
+  const gitDir = getWorktreeGitDir(dirPath);
+  return !!gitDir && fs.existsSync(path.join(gitDir, WORKTREE_MARKER));
+}
+
+/**
+ * Like hasWorktreeMarker, but also accepts the names worktrees had before the marker existed.
+ * Only for paths CommitView already tracks: other tools may use the same names.
+ */
 export function isCommitViewTempPath(dirPath: string): boolean {
-  const basename = path.basename(dirPath);
-  return basename.startsWith('temp-') || basename.startsWith('commitview-');
+  if (hasWorktreeMarker(dirPath)) {
+    return true;
+  }
+
+  // Worktrees created before the marker existed were only recognizable by name
+  return path.dirname(dirPath) === getTempDir() && path.basename(dirPath).startsWith('temp-');
+}
+
+/**
+ * A linked worktree has a .git file pointing at its admin directory, where the main
+ * checkout has a .git directory instead
+ */
+export function getWorktreeGitDir(worktreePath: string): string | undefined {
+  try {
+    const match = /^gitdir: (.+)$/m.exec(fs.readFileSync(path.join(worktreePath, '.git'), 'utf8'));
+    return match ? path.resolve(worktreePath, match[1].trim()) : undefined;
+  } catch {
+    return undefined;
+  }
 }